@@ -0,0 +1,442 @@
+import "../matchers";
+import { AmqpChannel, type AmqpMessage } from "../adapters/amqplib";
+import { Exchange } from "../core/exchange";
+import { MessageQueue, getMetadata } from "../core/queue";
+
+const json = (value: unknown) => Buffer.from(JSON.stringify(value));
+const parse = (message: AmqpMessage) => JSON.parse(message.content.toString());
+
+describe("AmqpChannel", () => {
+  let orders: MessageQueue;
+  let channel: AmqpChannel;
+
+  beforeEach(() => {
+    orders = new MessageQueue("orders");
+    channel = new AmqpChannel({ queues: [orders] });
+  });
+
+  describe("publishing", () => {
+    it("should send decoded content to the queue", () => {
+      const sent = channel.sendToQueue(
+        "orders",
+        json({ type: "order.created", orderId: "order-1" }),
+        {
+          correlationId: "request-1",
+          headers: { "x-tenant": "acme" },
+          persistent: true,
+        },
+      );
+
+      expect(sent).toBe(true);
+      expect(orders).toBeInQueue(
+        { type: "order.created", orderId: "order-1" },
+        {
+          properties: {
+            correlationId: "request-1",
+            headers: { "x-tenant": "acme" },
+          },
+        },
+      );
+    });
+
+    it("should map expiration to a ttl", () => {
+      jest.useFakeTimers();
+      try {
+        channel.sendToQueue("orders", json({ type: "test" }), {
+          expiration: "500",
+        });
+
+        jest.advanceTimersByTime(500);
+        expect(orders.getQueue().rejectedMessages).toHaveLength(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should route through asserted exchanges and bindings", async () => {
+      await channel.assertExchange("events", "topic");
+      await channel.assertQueue("audit");
+      await channel.bindQueue("audit", "events", "order.#");
+
+      channel.publish("events", "order.created", json({ orderId: "order-1" }));
+
+      expect(channel.queue("audit")).toBeInQueue({ orderId: "order-1" });
+      await channel.unbindQueue("audit", "events", "order.#");
+      channel.publish("events", "order.created", json({ orderId: "order-2" }));
+      expect(channel.queue("audit")).toHaveMessageCount(1);
+    });
+
+    it("should route the default exchange by queue name", () => {
+      channel.publish("", "orders", json({ type: "test" }));
+
+      expect(orders).toBeInQueue({ type: "test" });
+    });
+
+    it("should use exchanges passed to the channel", () => {
+      const exchange = new Exchange("events", "fanout");
+      exchange.bind(orders);
+      const withExchange = new AmqpChannel({ exchanges: [exchange] });
+
+      withExchange.publish("events", "", json({ type: "test" }));
+
+      expect(orders).toBeInQueue({ type: "test" });
+    });
+
+    it("should throw for unknown queues, exchanges and content", () => {
+      expect(() => channel.sendToQueue("missing", json({}))).toThrow(
+        'Queue "missing" does not exist',
+      );
+      expect(() => channel.publish("missing", "", json({}))).toThrow(
+        'Exchange "missing" does not exist',
+      );
+      expect(() => channel.sendToQueue("orders", json([1]))).toThrow(
+        "Message content must be a JSON object, pass a codec for other formats",
+      );
+    });
+  });
+
+  describe("queues", () => {
+    it("should assert queues and report their state", async () => {
+      await expect(channel.assertQueue("orders")).resolves.toEqual({
+        queue: "orders",
+        messageCount: 0,
+        consumerCount: 0,
+      });
+      await expect(channel.assertQueue("")).resolves.toMatchObject({
+        queue: "amq.gen-1",
+      });
+      await expect(channel.checkQueue("missing")).rejects.toThrow(
+        'Queue "missing" does not exist',
+      );
+    });
+
+    it("should apply length limits when asserting queues", async () => {
+      await channel.assertQueue("bounded", {
+        arguments: { "x-max-length": 1, "x-overflow": "reject-publish-dlx" },
+      });
+      channel.sendToQueue("bounded", json({ type: "first" }));
+
+      expect(() =>
+        channel.sendToQueue("bounded", json({ type: "second" })),
+      ).toThrow('Publish to queue "bounded" rejected: queue is full');
+      expect(channel.queue("bounded")).toHaveDropped({ type: "second" });
+    });
+
+    it("should order messages of priority queues", async () => {
+      await channel.assertQueue("urgent", {
+        arguments: { "x-max-priority": 10 },
+      });
+      channel.sendToQueue("urgent", json({ type: "digest" }));
+      channel.sendToQueue("urgent", json({ type: "alert" }), { priority: 9 });
+
+      const message = (await channel.get("urgent", {
+        noAck: true,
+      })) as AmqpMessage;
+      expect(parse(message)).toEqual({ type: "alert" });
+      expect(message.properties.priority).toBe(9);
+    });
+
+    it("should ask publishers to back off from blocked queues", async () => {
+      await channel.assertQueue("blocking", {
+        maxLength: 1,
+        arguments: { "x-overflow": "block" },
+      });
+      await channel.assertExchange("events", "fanout");
+      await channel.bindQueue("blocking", "events", "");
+
+      expect(channel.sendToQueue("blocking", json({ type: "first" }))).toBe(
+        true,
+      );
+      expect(channel.publish("events", "", json({ type: "second" }))).toBe(
+        false,
+      );
+      channel.queue("blocking")!.receiveMessage();
+      channel.queue("blocking")!.receiveMessage();
+      expect(channel.sendToQueue("blocking", json({ type: "third" }))).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("consuming", () => {
+    it("should deliver encoded messages and acknowledge them", async () => {
+      const received: AmqpMessage[] = [];
+      const { consumerTag } = await channel.consume("orders", (message) => {
+        received.push(message!);
+        channel.ack(message!);
+      });
+
+      channel.sendToQueue("orders", json({ type: "test" }), {
+        replyTo: "replies",
+      });
+      await orders.flush();
+
+      expect(parse(received[0])).toEqual({ type: "test" });
+      expect(received[0].fields).toEqual({
+        deliveryTag: 1,
+        redelivered: false,
+        exchange: "",
+        routingKey: "orders",
+        consumerTag,
+      });
+      expect(received[0].properties.replyTo).toBe("replies");
+      expect(orders).toHaveAcknowledged({ type: "test" });
+    });
+
+    it("should report the exchange and routing key of published messages", async () => {
+      await channel.assertExchange("ex", "topic");
+      await channel.bindQueue("orders", "ex", "order.#");
+      const fields: AmqpMessage["fields"][] = [];
+      await channel.consume("orders", (message) => {
+        fields.push(message!.fields);
+        channel.ack(message!);
+      });
+
+      channel.publish("ex", "order.created.eu", json({ type: "billing" }));
+      await orders.flush();
+
+      expect(fields[0]).toMatchObject({
+        exchange: "ex",
+        routingKey: "order.created.eu",
+      });
+    });
+
+    it("should redeliver nacked messages", async () => {
+      const redelivered: boolean[] = [];
+      await channel.consume("orders", (message) => {
+        redelivered.push(message!.fields.redelivered);
+        if (message!.fields.redelivered) {
+          channel.ack(message!);
+        } else {
+          channel.nack(message!);
+        }
+      });
+
+      channel.sendToQueue("orders", json({ type: "test" }));
+      await orders.flush();
+
+      expect(redelivered).toEqual([false, true]);
+      expect(orders).toHaveAcknowledged({ type: "test" });
+    });
+
+    it("should dead-letter rejected messages", async () => {
+      const deadLetters = new MessageQueue("orders.dlq");
+      const source = new MessageQueue("source", {
+        deadLetterQueue: deadLetters,
+      });
+      const sourceChannel = new AmqpChannel({ queues: [source] });
+      await sourceChannel.consume("source", (message) =>
+        sourceChannel.reject(message!, false),
+      );
+
+      sourceChannel.sendToQueue("source", json({ type: "test" }));
+      await source.flush();
+
+      expect(source).toHaveDeadLettered({ type: "test" }, "rejected");
+    });
+
+    it("should acknowledge right away with noAck", async () => {
+      await channel.consume("orders", () => {}, { noAck: true });
+
+      channel.sendToQueue("orders", json({ type: "test" }));
+      await orders.flush();
+
+      expect(orders).toHaveEmptyQueue();
+      expect(() => channel.ackAll()).not.toThrow();
+    });
+
+    it("should ack every delivery up to a tag", async () => {
+      const received: AmqpMessage[] = [];
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      channel.sendToQueue("orders", json({ index: 2 }));
+      await orders.flush();
+      channel.ack(received[1], true);
+
+      expect(orders).toHaveExactlyMessages([{ index: 2 }]);
+      expect(() => channel.ack(received[0])).toThrow("Unknown delivery tag: 1");
+    });
+
+    it("should hold further deliveries at the prefetch limit", async () => {
+      const received: AmqpMessage[] = [];
+      await channel.prefetch(1);
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(received).toHaveLength(1);
+
+      channel.ack(received[0]);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(received.map(parse)).toEqual([{ index: 0 }, { index: 1 }]);
+      channel.ack(received[1]);
+      await orders.flush();
+    });
+
+    it("should not hold handlers open for unacked deliveries", async () => {
+      const received: AmqpMessage[] = [];
+      await channel.prefetch(1);
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      await orders.flush();
+
+      expect(received.map(parse)).toEqual([{ index: 0 }]);
+      expect(orders.getQueue().sentMessages).toHaveLength(2);
+    });
+
+    it("should deliver messages sent before consuming", async () => {
+      const received: AmqpMessage[] = [];
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      channel.sendToQueue("orders", json({ index: 2 }));
+      await channel.prefetch(2);
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+      await orders.flush();
+      expect(received.map(parse)).toEqual([{ index: 0 }, { index: 1 }]);
+
+      channel.ack(received[1]);
+      await orders.flush();
+      expect(received.map(parse)).toEqual([
+        { index: 0 },
+        { index: 1 },
+        { index: 2 },
+      ]);
+      expect(orders.getDeliveryCount(orders.getQueue().sentMessages[0])).toBe(
+        1,
+      );
+      expect(await channel.get("orders")).toBe(false);
+    });
+
+    it("should surface errors of consumers of earlier messages", async () => {
+      channel.sendToQueue("orders", json({ index: 0 }));
+      await channel.consume("orders", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        throw new Error("consumer failed");
+      });
+
+      await expect(orders.flush()).rejects.toMatchObject({
+        errors: [new Error("consumer failed")],
+      });
+    });
+
+    it("should hand each message to one of competing consumers", async () => {
+      const received: string[] = [];
+      for (const tag of ["c1", "c2"]) {
+        await channel.consume(
+          "orders",
+          (message) => {
+            received.push(tag);
+            channel.ack(message!);
+          },
+          { consumerTag: tag },
+        );
+      }
+
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      channel.sendToQueue("orders", json({ index: 2 }));
+      await orders.flush();
+
+      expect(received).toEqual(["c1", "c2", "c1"]);
+      expect(orders.getQueue().receivedMessages).toHaveLength(3);
+    });
+
+    it("should skip competing consumers at their prefetch limit", async () => {
+      const received: AmqpMessage[] = [];
+      await channel.prefetch(1);
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+      await orders.flush();
+      expect(received.map(parse)).toEqual([{ index: 0 }]);
+
+      await channel.consume(
+        "orders",
+        (message) => {
+          received.push(message!);
+        },
+        { consumerTag: "late" },
+      );
+      await orders.flush();
+
+      expect(received.map(parse)).toEqual([{ index: 0 }, { index: 1 }]);
+      expect(received[1].fields.consumerTag).toBe("late");
+    });
+
+    it("should stop delivering after cancel", async () => {
+      const onMessage = jest.fn();
+      const { consumerTag } = await channel.consume("orders", onMessage);
+      await channel.cancel(consumerTag);
+
+      channel.sendToQueue("orders", json({ type: "test" }));
+      await orders.flush();
+
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("should requeue unacknowledged deliveries on close", async () => {
+      await channel.consume("orders", () => {});
+      channel.sendToQueue("orders", json({ type: "test" }));
+      await orders.flush();
+
+      await channel.close();
+
+      expect(getMetadata(orders.getQueue().sentMessages[0])).toMatchObject({
+        redelivered: true,
+      });
+    });
+  });
+
+  describe("get", () => {
+    it("should fetch pending messages one at a time", async () => {
+      channel.sendToQueue("orders", json({ index: 0 }));
+      channel.sendToQueue("orders", json({ index: 1 }));
+
+      const first = (await channel.get("orders")) as AmqpMessage;
+      const second = (await channel.get("orders")) as AmqpMessage;
+
+      expect(parse(first)).toEqual({ index: 0 });
+      expect(first.fields.messageCount).toBe(1);
+      expect(parse(second)).toEqual({ index: 1 });
+      await expect(channel.get("orders")).resolves.toBe(false);
+
+      channel.ack(first);
+      expect(orders).toHaveExactlyMessages([{ index: 1 }]);
+    });
+
+    it("should acknowledge fetched messages with noAck", async () => {
+      channel.sendToQueue("orders", json({ type: "test" }));
+
+      await channel.get("orders", { noAck: true });
+
+      expect(orders).toHaveEmptyQueue();
+    });
+
+    it("should not fetch messages assigned to a consumer", async () => {
+      const received: AmqpMessage[] = [];
+      await channel.consume("orders", (message) => {
+        received.push(message!);
+      });
+      channel.sendToQueue("orders", json({ type: "test" }));
+
+      await expect(channel.get("orders")).resolves.toBe(false);
+      await orders.flush();
+      expect(received).toHaveLength(1);
+    });
+  });
+});
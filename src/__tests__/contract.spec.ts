@@ -0,0 +1,177 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ContractRecorder,
+  inferSchema,
+  loadContract,
+  replayContract,
+} from "../core/contract";
+import { MessageQueue } from "../core/queue";
+import { validateJsonSchema } from "../core/schema";
+
+describe("inferSchema", () => {
+  it("should require properties seen in every value", () => {
+    expect(
+      inferSchema([
+        { orderId: "order-1", total: 10 },
+        { orderId: "order-2", note: null },
+      ]),
+    ).toEqual({
+      type: "object",
+      properties: {
+        orderId: { type: "string" },
+        total: { type: "number" },
+        note: { type: "null" },
+      },
+      required: ["orderId"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should infer array items and mixed types", () => {
+    expect(inferSchema([[1, "a"], []])).toEqual({
+      type: "array",
+      items: { type: ["number", "string"] },
+    });
+  });
+
+  it("should accept the values it was inferred from", () => {
+    const values = [
+      { type: "order.created", lines: [{ sku: "a", quantity: 1 }] },
+      { type: "order.created", lines: [], coupon: "SPRING" },
+    ];
+    const schema = inferSchema(values);
+
+    values.forEach((value) =>
+      expect(validateJsonSchema(schema, value)).toEqual([]),
+    );
+    expect(validateJsonSchema(schema, { type: "order.created" })).toEqual([
+      "$.lines is required",
+    ]);
+  });
+});
+
+describe("ContractRecorder", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jest-mq-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record distinct payloads per type", () => {
+    const queue = new MessageQueue("orders");
+    const recorder = new ContractRecorder();
+    recorder.record(queue);
+
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    queue.publish({ type: "order.cancelled", orderId: "order-1" });
+    queue.publish({ orderId: "untyped" });
+
+    const contract = recorder.getContract();
+    expect(Object.keys(contract.messages)).toEqual([
+      "order.cancelled",
+      "order.created",
+    ]);
+    expect(contract.messages["order.created"].examples).toEqual([
+      { type: "order.created", orderId: "order-1" },
+    ]);
+  });
+
+  it("should stop recording and cap the examples", () => {
+    const queue = new MessageQueue("orders");
+    const recorder = new ContractRecorder({ maxExamples: 2 });
+    const stop = recorder.record(queue);
+
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    queue.publish({ type: "order.created", orderId: "order-2" });
+    queue.publish({ type: "order.created", orderId: 3, note: "late" });
+    stop();
+    queue.publish({ type: "order.cancelled" });
+
+    const contract = recorder.getContract();
+    expect(contract.messages["order.created"].examples).toHaveLength(2);
+    expect(contract.messages["order.created"].schema).toEqual({
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        orderId: { type: ["string", "number"] },
+        note: { type: "string" },
+      },
+      required: ["type", "orderId"],
+      additionalProperties: false,
+    });
+    expect(contract.messages["order.cancelled"]).toBeUndefined();
+  });
+
+  it("should save a contract that loads back", () => {
+    const queue = new MessageQueue("orders");
+    const recorder = new ContractRecorder();
+    recorder.record(queue);
+    queue.publish({ type: "order.created", orderId: "order-1" });
+
+    const filePath = join(dir, "contracts", "orders.json");
+    recorder.save(filePath);
+
+    expect(loadContract(filePath)).toEqual(recorder.getContract());
+  });
+
+  it("should refuse files that are not contracts", () => {
+    const filePath = join(dir, "other.json");
+    writeFileSync(filePath, "{}");
+
+    expect(() => loadContract(filePath)).toThrow(
+      `Not a message contract: ${filePath}`,
+    );
+  });
+});
+
+describe("replayContract", () => {
+  const producer = new MessageQueue("orders");
+  const recorder = new ContractRecorder();
+  recorder.record(producer);
+  producer.publish({ type: "order.created", orderId: "order-1" });
+  producer.publish({ type: "order.cancelled", orderId: "order-1" });
+  const contract = recorder.getContract();
+
+  it("should feed the recorded examples to the consumer", async () => {
+    const consumer = new MessageQueue("orders");
+    const handled: unknown[] = [];
+    consumer.subscribe("order.*", async (message) => {
+      handled.push(message);
+    });
+
+    const ids = await replayContract(contract, consumer);
+
+    expect(ids).toEqual([0, 1]);
+    expect(handled).toEqual([
+      { type: "order.cancelled", orderId: "order-1", id: 0 },
+      { type: "order.created", orderId: "order-1", id: 1 },
+    ]);
+  });
+
+  it("should replay only the chosen types", async () => {
+    const consumer = new MessageQueue("orders");
+    await replayContract(contract, consumer, { types: ["order.created"] });
+
+    expect(consumer.getQueue().sentMessages).toEqual([
+      { type: "order.created", orderId: "order-1", id: 0 },
+    ]);
+  });
+
+  it("should reject when a handler fails", async () => {
+    const consumer = new MessageQueue("orders");
+    consumer.subscribe("order.created", async () => {
+      throw new Error("Unknown order");
+    });
+
+    await expect(replayContract(contract, consumer)).rejects.toThrow(
+      "One or more message handlers failed",
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import "../matchers";
+import { Exchange } from "../core/exchange";
+import { MessageQueue, getMetadata } from "../core/queue";
+
+describe("Exchange", () => {
+  let billing: MessageQueue;
+  let audit: MessageQueue;
+
+  beforeEach(() => {
+    billing = new MessageQueue("billing");
+    audit = new MessageQueue("audit");
+  });
+
+  afterEach(() => {
+    billing.clear();
+    audit.clear();
+  });
+
+  describe("constructor", () => {
+    it("should default to a direct exchange", () => {
+      expect(new Exchange("orders").type).toBe("direct");
+    });
+
+    it("should throw an error if no name is provided", () => {
+      expect(() => new Exchange("")).toThrow("Exchange name is required");
+    });
+
+    it("should throw an error for unknown exchange types", () => {
+      expect(() => new Exchange("orders", "headers" as "direct")).toThrow(
+        "Unknown exchange type: headers",
+      );
+    });
+  });
+
+  describe("direct", () => {
+    it("should route by exact routing key", () => {
+      const exchange = new Exchange("orders", "direct");
+      exchange.bind(billing, "order.created");
+      exchange.bind(audit, "order.cancelled");
+
+      const routed = exchange.publish({ type: "order.created", orderId: 1 });
+
+      expect(routed).toEqual(["billing"]);
+      expect(billing).toBeInQueue({ type: "order.created", orderId: 1 });
+      expect(audit).toHaveEmptyQueue();
+    });
+
+    it("should accept an explicit routing key", () => {
+      const exchange = new Exchange("orders", "direct");
+      exchange.bind(audit, "audit");
+
+      exchange.publish({ type: "order.created" }, "audit");
+
+      expect(audit).toBeInQueue({ type: "order.created" });
+    });
+
+    it("should pass publish options to the queues", () => {
+      const exchange = new Exchange("orders", "direct");
+      exchange.bind(billing, "order.created");
+
+      exchange.publish({ type: "order.created" }, "order.created", {
+        headers: { "x-tenant": "acme" },
+      });
+
+      expect(billing).toBeInQueue(
+        { type: "order.created" },
+        { properties: { headers: { "x-tenant": "acme" } } },
+      );
+    });
+
+    it("should keep the exchange and routing key on the envelope", () => {
+      const exchange = new Exchange("orders", "direct");
+      exchange.bind(billing, "order.created");
+
+      exchange.publish({ type: "order" }, "order.created");
+
+      expect(getMetadata(billing.getQueue().sentMessages[0])).toEqual({
+        exchange: "orders",
+        routingKey: "order.created",
+      });
+    });
+  });
+
+  describe("fanout", () => {
+    it("should route to every bound queue", () => {
+      const exchange = new Exchange("orders", "fanout");
+      exchange.bind(billing);
+      exchange.bind(audit, "ignored");
+
+      expect(exchange.publish({ type: "anything" })).toEqual([
+        "billing",
+        "audit",
+      ]);
+    });
+
+    it("should publish to every queue before reporting rejections", () => {
+      const exchange = new Exchange("orders", "fanout");
+      const full = new MessageQueue("full", {
+        maxLength: 1,
+        overflow: "reject-publish",
+      });
+      full.publish({ type: "existing" });
+      exchange.bind(billing);
+      exchange.bind(full);
+      exchange.bind(audit);
+
+      expect(() => exchange.publish({ type: "anything" })).toThrow(
+        'Publish to exchange "orders" was rejected by one or more queues',
+      );
+      expect(billing).toBeInQueue({ type: "anything" });
+      expect(audit).toBeInQueue({ type: "anything" });
+      expect(full.getQueue().sentMessages).toHaveLength(1);
+    });
+  });
+
+  describe("topic", () => {
+    it("should deliver to every queue with a matching pattern", () => {
+      const exchange = new Exchange("orders", "topic");
+      exchange.bind(billing, "order.created.*");
+      exchange.bind(audit, "order.#");
+
+      const message = { type: "order.created.eu", orderId: 1 };
+      exchange.publish(message);
+
+      expect(billing).toBeInQueue(message);
+      expect(audit).toBeInQueue(message);
+    });
+
+    it("should deliver once per queue when several bindings match", () => {
+      const exchange = new Exchange("orders", "topic");
+      exchange.bind(audit, "order.*.eu");
+      exchange.bind(audit, "#");
+
+      exchange.publish({ type: "order.created.eu" });
+
+      expect(audit.getQueue().sentMessages).toHaveLength(1);
+    });
+  });
+
+  describe("bind", () => {
+    it("should ignore duplicate bindings", () => {
+      const exchange = new Exchange("orders");
+      exchange.bind(billing, "order.created");
+      exchange.bind(billing, "order.created");
+
+      expect(exchange.getExchange().bindings).toEqual([
+        { queue: "billing", bindingKey: "order.created" },
+      ]);
+    });
+
+    it("should return a function that removes the binding", () => {
+      const exchange = new Exchange("orders");
+      const unbind = exchange.bind(billing, "order.created");
+
+      unbind();
+      exchange.publish({ type: "order.created" });
+
+      expect(billing).toHaveEmptyQueue();
+    });
+  });
+
+  describe("unroutedMessages", () => {
+    it("should keep messages that matched no binding", () => {
+      const exchange = new Exchange("orders");
+      exchange.bind(billing, "order.created");
+
+      expect(exchange.publish({ type: "order.cancelled" })).toEqual([]);
+      expect(exchange.getExchange().unroutedMessages).toEqual([
+        { type: "order.cancelled" },
+      ]);
+    });
+
+    it("should be reset by clear", () => {
+      const exchange = new Exchange("orders");
+      exchange.bind(billing, "order.created");
+      exchange.publish({ type: "order.cancelled" });
+
+      exchange.clear();
+
+      expect(exchange.getExchange()).toEqual({
+        name: "orders",
+        type: "direct",
+        bindings: [],
+        unroutedMessages: [],
+      });
+    });
+
+    it("should route untyped messages with an empty routing key", () => {
+      const exchange = new Exchange("orders");
+      exchange.bind(billing);
+
+      exchange.publish({ payload: "test" });
+
+      expect(billing).toBeInQueue({ payload: "test" });
+    });
+  });
+});
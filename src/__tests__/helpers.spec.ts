@@ -1,4 +1,8 @@
-import { expectMessage } from "../core/helpers";
+import {
+  expectMessage,
+  expectMessages,
+  expectNoMessage,
+} from "../core/helpers";
 import { MessageQueue, Message, type MessagePayload } from "../core/queue";
 
 describe("expectMessage", () => {
@@ -30,20 +34,29 @@ describe("expectMessage", () => {
 
   it("should resolve with the message if it arrives within the timeout, after some time", async () => {
     const messageType = "testMessage";
-    const expectedMessage: Message<TestMessage> = {
+
+    setTimeout(() => {
+      queue.publish({ type: messageType, payload: "testPayload" });
+    }, 100);
+
+    const message = await expectMessage({ queue, messageType, timeout: 200 });
+    expect(message).toEqual({
       type: messageType,
       payload: "testPayload",
       id: 0,
-    };
+    });
+  });
 
-    jest.spyOn(queue, "receiveMessage").mockReturnValueOnce(undefined);
+  it("should ignore published messages of other types", async () => {
+    const messageType = "testMessage";
 
-    setTimeout(() => {
-      jest.spyOn(queue, "receiveMessage").mockReturnValueOnce(expectedMessage);
-    }, 100);
+    const pending = expectMessage({ queue, messageType, timeout: 100 });
+    queue.publish({ type: "wrongMessage", payload: "testPayload" });
 
-    const message = await expectMessage({ queue, messageType, timeout: 200 });
-    expect(message).toEqual(expectedMessage);
+    await expect(pending).rejects.toThrow(
+      `Timeout waiting for message type: ${messageType}`,
+    );
+    expect(queue.getQueue().sentMessages).toHaveLength(1);
   });
 
   it("should reject with an error if the timeout is reached before the message arrives", async () => {
@@ -77,3 +90,218 @@ describe("expectMessage", () => {
     expect(message.type).not.toBe(wrongMessageType);
   });
 });
+
+describe("expectMessage matching", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should match on a partial message", async () => {
+    queue.publish({ type: "order.created", orderId: 1, lines: [1] });
+    queue.publish({ type: "order.created", orderId: 2, lines: [2] });
+
+    const message = await expectMessage({
+      queue,
+      messageType: "order.created",
+      match: { orderId: 2, lines: [expect.any(Number)] },
+    });
+
+    expect(message.id).toBe(1);
+    expect(queue.getQueue().sentMessages).toHaveLength(1);
+  });
+
+  it("should match on a predicate without a type", async () => {
+    setTimeout(() => queue.publish({ type: "payment", amount: 10 }), 10);
+
+    const message = await expectMessage({
+      queue,
+      match: (m) => m.amount === 10,
+      timeout: 200,
+    });
+
+    expect(message).toMatchObject({ type: "payment", amount: 10 });
+  });
+
+  it("should list the messages that arrived on timeout", async () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+    setTimeout(() => queue.publish({ type: "order.created", orderId: 2 }), 10);
+
+    await expect(
+      expectMessage({
+        queue,
+        messageType: "order.created",
+        match: { orderId: 3 },
+        timeout: 50,
+      }),
+    ).rejects.toThrow(
+      [
+        'Timeout waiting for message type: order.created matching {"orderId": 3}',
+        "Messages in the queue while waiting:",
+        '  {"id": 0, "orderId": 1, "type": "order.created"}',
+        '  {"id": 1, "orderId": 2, "type": "order.created"}',
+      ].join("\n"),
+    );
+  });
+
+  it("should report when nothing was published", async () => {
+    await expect(
+      expectMessage({ queue, match: () => true, timeout: 10 }),
+    ).rejects.toThrow(
+      "Timeout waiting for message matching predicate\nNo messages were published to the queue.",
+    );
+  });
+});
+
+describe("expectMessages", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should resolve with the requested number of messages in order", async () => {
+    queue.publish({ type: "tick", n: 1 });
+    queue.publish({ type: "other" });
+    setTimeout(() => {
+      queue.publish({ type: "tick", n: 2 });
+      queue.publish({ type: "tick", n: 3 });
+    }, 10);
+
+    const messages = await expectMessages({
+      queue,
+      messageType: "tick",
+      count: 2,
+      timeout: 200,
+    });
+
+    expect(messages.map((m) => m.n)).toEqual([1, 2]);
+    expect(queue.getQueue().sentMessages.map((m) => m.type)).toEqual([
+      "other",
+      "tick",
+    ]);
+  });
+
+  it("should report how many messages were received on timeout", async () => {
+    queue.publish({ type: "tick", n: 1 });
+
+    await expect(
+      expectMessages({ queue, messageType: "tick", count: 3, timeout: 10 }),
+    ).rejects.toThrow(
+      "Timeout waiting for messages type: tick (received 1 of 3)",
+    );
+  });
+
+  it("should reject with the error of a throwing predicate", async () => {
+    const waiting = expectMessages({
+      queue,
+      match: (message) => (message.order as { id: number }).id === 1,
+      count: 1,
+      timeout: 200,
+    });
+
+    expect(() => queue.publish({ type: "tick" })).not.toThrow();
+    await expect(waiting).rejects.toThrow(TypeError);
+  });
+});
+
+describe("expectNoMessage", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should resolve when no matching message arrives", async () => {
+    setTimeout(() => queue.publish({ type: "other" }), 10);
+
+    await expect(
+      expectNoMessage({ queue, messageType: "order.created", within: 50 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject as soon as a matching message is published", async () => {
+    setTimeout(() => queue.publish({ type: "order.created", orderId: 1 }), 10);
+
+    await expect(
+      expectNoMessage({ queue, match: { orderId: 1 }, within: 5000 }),
+    ).rejects.toThrow(
+      'Expected no message matching {"orderId": 1} within 5000ms, but received:\n  {"id": 0, "orderId": 1, "type": "order.created"}',
+    );
+    expect(queue.getQueue().sentMessages).toHaveLength(1);
+  });
+
+  it("should reject when a matching message is already pending", async () => {
+    queue.publish({ type: "order.created" });
+
+    await expect(expectNoMessage({ queue })).rejects.toThrow(
+      "Expected no message within 100ms",
+    );
+  });
+
+  it("should reject with the error of a throwing predicate", async () => {
+    const watching = expectNoMessage({
+      queue,
+      match: (message) => (message.order as { id: number }).id === 1,
+      within: 200,
+    });
+
+    expect(() => queue.publish({ type: "tick" })).not.toThrow();
+    await expect(watching).rejects.toThrow(TypeError);
+  });
+});
+
+describe("expectMessage with fake timers", () => {
+  type TestMessage = MessagePayload & { type: string; payload: string };
+  let queue: MessageQueue<TestMessage>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+    jest.useRealTimers();
+  });
+
+  it("should resolve as soon as a delayed message is published", async () => {
+    queue.publish({ type: "testMessage", payload: "later" }, { delay: 1000 });
+    const pending = expectMessage({
+      queue,
+      messageType: "testMessage",
+      timeout: 5000,
+    });
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).resolves.toMatchObject({ payload: "later" });
+  });
+
+  it("should reject once the fake clock passes the timeout", async () => {
+    const pending = expectMessage({
+      queue,
+      messageType: "testMessage",
+      timeout: 5000,
+    });
+
+    jest.advanceTimersByTime(5000);
+
+    await expect(pending).rejects.toThrow(
+      "Timeout waiting for message type: testMessage",
+    );
+  });
+});
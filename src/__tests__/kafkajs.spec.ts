@@ -0,0 +1,255 @@
+import "../matchers";
+import { KafkaClient, type KafkaEachMessagePayload } from "../adapters/kafkajs";
+import { MessageQueue } from "../core/queue";
+import { Topic } from "../core/topic";
+
+const json = (value: unknown) => JSON.stringify(value);
+
+describe("KafkaClient", () => {
+  let orders: Topic;
+  let kafka: KafkaClient;
+
+  beforeEach(() => {
+    orders = new Topic("orders", { partitions: 2 });
+    kafka = new KafkaClient({ topics: [orders] });
+  });
+
+  describe("producer", () => {
+    it("should append decoded records to the topic", async () => {
+      const producer = kafka.producer();
+      await producer.connect();
+
+      const metadata = await producer.send({
+        topic: "orders",
+        messages: [
+          {
+            key: "order-1",
+            value: json({ type: "order.created" }),
+            headers: { "x-tenant": "acme" },
+            timestamp: "1700000000000",
+          },
+          { key: "order-1", value: Buffer.from(json({ type: "order.paid" })) },
+        ],
+      });
+
+      expect(orders).toBeInTopic({ type: "order.created" }, { key: "order-1" });
+      expect(metadata).toEqual([
+        {
+          topicName: "orders",
+          partition: expect.any(Number),
+          errorCode: 0,
+          baseOffset: "0",
+        },
+      ]);
+      const [record] = orders.getTopic().partitions[metadata[0].partition];
+      expect(record.headers).toEqual({ "x-tenant": "acme" });
+      expect(record.timestamp).toBe(1700000000000);
+    });
+
+    it("should publish sent records to the topic's queue", async () => {
+      await kafka.producer().send({
+        topic: "orders",
+        messages: [
+          {
+            value: json({ type: "order.created" }),
+            headers: { "x-tenant": "acme" },
+            timestamp: "1700000000000",
+          },
+        ],
+      });
+
+      expect(kafka.queue("orders")).toBeInQueue(
+        { type: "order.created" },
+        {
+          properties: {
+            headers: { "x-tenant": "acme" },
+            timestamp: 1700000000000,
+          },
+        },
+      );
+    });
+
+    it("should not append records the queue rejects", async () => {
+      const queue = new MessageQueue("orders", {
+        schemas: { "order.created": { required: ["orderId"] } },
+      });
+      const client = new KafkaClient({ topics: [orders], queues: [queue] });
+
+      await expect(
+        client.producer().send({
+          topic: "orders",
+          messages: [{ value: json({ type: "order.created" }) }],
+        }),
+      ).rejects.toThrow('Invalid message of type "order.created"');
+      expect(client.queue("orders")).toBe(queue);
+      expect(orders).not.toBeInTopic({ type: "order.created" });
+    });
+
+    it("should not publish records to missing partitions", async () => {
+      await expect(
+        kafka.producer().send({
+          topic: "orders",
+          messages: [{ value: json({ type: "order.created" }), partition: 5 }],
+        }),
+      ).rejects.toThrow("Partition 5 does not exist");
+      expect(kafka.queue("orders")).toHaveEmptyQueue();
+    });
+
+    it("should create unknown topics", async () => {
+      await kafka.producer().sendBatch({
+        topicMessages: [{ topic: "payments", messages: [{ value: "{}" }] }],
+      });
+
+      expect(kafka.topic("payments")).toBeInTopic({});
+      expect(kafka.queue("payments")).toBeInQueue({});
+    });
+  });
+
+  describe("consumer", () => {
+    const consume = async (groupId = "billing") => {
+      const handled: KafkaEachMessagePayload[] = [];
+      const consumer = kafka.consumer({ groupId });
+      await consumer.connect();
+      await consumer.subscribe({ topic: "orders", fromBeginning: true });
+      await consumer.run({
+        eachMessage: async (payload) => {
+          handled.push(payload);
+        },
+      });
+      return { consumer, handled };
+    };
+
+    it("should hand existing and new records to eachMessage", async () => {
+      orders.send({ key: "order-1", value: { type: "order.created" } });
+      const { consumer, handled } = await consume();
+      orders.send({
+        key: "order-1",
+        value: { type: "order.paid" },
+        headers: { "x-tenant": "acme" },
+      });
+      await consumer.flush();
+
+      expect(
+        handled.map(({ message }) => JSON.parse(message.value.toString())),
+      ).toEqual([{ type: "order.created" }, { type: "order.paid" }]);
+      expect(handled[1]).toMatchObject({
+        topic: "orders",
+        message: {
+          key: Buffer.from("order-1"),
+          offset: "1",
+          headers: { "x-tenant": "acme" },
+        },
+      });
+      expect(orders.consumerGroup("billing").lag()).toEqual([0, 0]);
+    });
+
+    it("should skip existing records unless reading from the beginning", async () => {
+      orders.send({ value: { type: "old" } });
+      const consumer = kafka.consumer({ groupId: "billing" });
+      const eachMessage = jest.fn(async () => {});
+      await consumer.subscribe({ topics: [/^ord/] });
+      await consumer.run({ eachMessage });
+      orders.send({ value: { type: "new" } });
+      await consumer.flush();
+
+      expect(eachMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should leave offsets to the caller without autoCommit", async () => {
+      const consumer = kafka.consumer({ groupId: "billing" });
+      await consumer.subscribe({ topic: "orders", fromBeginning: true });
+      await consumer.run({ eachMessage: async () => {}, autoCommit: false });
+      orders.send({ value: { type: "test" }, partition: 0 });
+      await consumer.flush();
+      expect(orders.consumerGroup("billing").lag()).toEqual([1, 0]);
+
+      await consumer.commitOffsets([
+        { topic: "orders", partition: 0, offset: "1" },
+      ]);
+      expect(orders.consumerGroup("billing").lag()).toEqual([0, 0]);
+    });
+
+    it("should stop before a failing record and rethrow on flush", async () => {
+      const consumer = kafka.consumer({ groupId: "billing" });
+      await consumer.subscribe({ topic: "orders", fromBeginning: true });
+      await consumer.run({
+        eachMessage: async ({ message }) => {
+          if (message.offset === "1") {
+            throw new Error("handler failed");
+          }
+        },
+      });
+      orders.send({ value: { type: "test" }, partition: 0 });
+      orders.send({ value: { type: "test" }, partition: 0 });
+      orders.send({ value: { type: "test" }, partition: 0 });
+
+      await expect(consumer.flush()).rejects.toThrow("handler failed");
+      expect(orders.consumerGroup("billing").lag()).toEqual([2, 0]);
+    });
+
+    it("should replay records after a seek", async () => {
+      orders.send({ value: { type: "test" }, partition: 0 });
+      const { consumer, handled } = await consume();
+      await consumer.flush();
+
+      consumer.seek({ topic: "orders", partition: 0, offset: "0" });
+      await consumer.flush();
+
+      expect(handled.map(({ message }) => message.offset)).toEqual(["0", "0"]);
+    });
+
+    it("should split partitions among consumers of a group", async () => {
+      const first = await consume();
+      const second = await consume();
+      orders.send({ value: { type: "test" }, partition: 0 });
+      orders.send({ value: { type: "test" }, partition: 1 });
+      await Promise.all([first.consumer.flush(), second.consumer.flush()]);
+
+      expect(first.handled.map(({ partition }) => partition)).toEqual([0]);
+      expect(second.handled.map(({ partition }) => partition)).toEqual([1]);
+    });
+
+    it("should hand over records when a consumer joins during eachMessage", async () => {
+      const handled: number[] = [];
+      const second = kafka.consumer({ groupId: "billing" });
+      await second.subscribe({ topic: "orders", fromBeginning: true });
+      const first = kafka.consumer({ groupId: "billing" });
+      await first.subscribe({ topic: "orders", fromBeginning: true });
+      await first.run({
+        eachMessage: async ({ partition }) => {
+          handled.push(partition);
+          if (handled.length === 1) {
+            await second.run({ eachMessage: async () => {} });
+          }
+        },
+      });
+
+      orders.send({ value: { type: "test" }, partition: 1 });
+      await first.flush();
+      orders.send({ value: { type: "test" }, partition: 0 });
+      await first.flush();
+      await second.flush();
+
+      expect(handled).toEqual([1, 0]);
+      expect(orders.consumerGroup("billing").lag()).toEqual([0, 0]);
+    });
+
+    it("should stop consuming on disconnect", async () => {
+      const { consumer, handled } = await consume();
+      await consumer.disconnect();
+      orders.send({ value: { type: "test" } });
+      await consumer.flush();
+
+      expect(handled).toHaveLength(0);
+      expect(orders.consumerGroup("billing").getGroup().members).toEqual([]);
+    });
+
+    it("should not run twice", async () => {
+      const { consumer } = await consume();
+
+      await expect(
+        consumer.run({ eachMessage: async () => {} }),
+      ).rejects.toThrow("The consumer is already running");
+    });
+  });
+});
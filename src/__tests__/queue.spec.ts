@@ -1,4 +1,11 @@
-import { MessageQueue } from "../core/queue";
+import {
+  MessageQueue,
+  envelope,
+  getHandlerContext,
+  getMetadata,
+  toPayload,
+  type QueueTransaction,
+} from "../core/queue";
 
 describe("MessageQueue", () => {
   let queue: MessageQueue;
@@ -51,6 +58,361 @@ describe("MessageQueue", () => {
     });
   });
 
+  describe("publish options", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should hold delayed messages until the delay elapsed", async () => {
+      const handler = jest.fn();
+      queue.subscribe("test", handler);
+
+      const id = queue.publish({ type: "test" }, { delay: 1000 });
+
+      expect(id).toBe(0);
+      expect(queue.getQueue().scheduledMessages).toEqual([
+        { type: "test", id: 0 },
+      ]);
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+
+      jest.advanceTimersByTime(999);
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+
+      jest.advanceTimersByTime(1);
+      await queue.flush();
+      expect(queue.getQueue().scheduledMessages).toHaveLength(0);
+      expect(queue.getQueue().sentMessages).toEqual([{ type: "test", id: 0 }]);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should expire pending messages after their ttl", () => {
+      queue.publish({ type: "test" }, { ttl: 500 });
+
+      jest.advanceTimersByTime(500);
+
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+      expect(queue.getQueue().rejectedMessages).toEqual([
+        { type: "test", id: 0 },
+      ]);
+    });
+
+    it("should start the ttl once a delayed message is enqueued", () => {
+      queue.publish({ type: "test" }, { delay: 1000, ttl: 500 });
+
+      jest.advanceTimersByTime(1400);
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+
+      jest.advanceTimersByTime(100);
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should not expire acknowledged messages", () => {
+      queue.publish({ type: "test" }, { ttl: 500 });
+      queue.receiveMessage("test");
+
+      jest.advanceTimersByTime(500);
+
+      expect(queue.getQueue().receivedMessages).toHaveLength(1);
+      expect(queue.getQueue().rejectedMessages).toHaveLength(0);
+    });
+
+    it("should dead-letter expired messages", () => {
+      const deadLetters = new MessageQueue("test.dlq");
+      const source = new MessageQueue("source", {
+        deadLetterQueue: deadLetters,
+      });
+      source.publish({ type: "test" }, { ttl: 500 });
+
+      jest.advanceTimersByTime(500);
+
+      expect(
+        getMetadata(deadLetters.getQueue().sentMessages[0]).deadLetter,
+      ).toEqual({
+        reason: "expired",
+        queue: "source",
+        id: 0,
+      });
+    });
+
+    it("should not expire messages their handler is processing", async () => {
+      const deadLetters = new MessageQueue("test.dlq");
+      const source = new MessageQueue("source", {
+        deadLetterQueue: deadLetters,
+      });
+      source.subscribe("test", async (message) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        source.ack(message);
+      });
+      source.publish({ type: "test" }, { ttl: 10 });
+
+      await jest.advanceTimersByTimeAsync(50);
+      await source.flush();
+
+      expect(source.getQueue().receivedMessages).toHaveLength(1);
+      expect(source.getQueue().rejectedMessages).toHaveLength(0);
+      expect(deadLetters.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should cancel scheduled messages on clear", () => {
+      queue.publish({ type: "test" }, { delay: 1000 });
+
+      queue.clear();
+      jest.advanceTimersByTime(1000);
+
+      expect(queue.getQueue().scheduledMessages).toHaveLength(0);
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should validate delay and ttl", () => {
+      expect(() => queue.publish({ type: "test" }, { delay: -1 })).toThrow(
+        "delay must be a non-negative number",
+      );
+      expect(() => queue.publish({ type: "test" }, { ttl: NaN })).toThrow(
+        "ttl must be a non-negative number",
+      );
+    });
+  });
+
+  describe("message properties", () => {
+    const properties = {
+      headers: { "x-tenant": "acme" },
+      correlationId: "request-1",
+      replyTo: "replies",
+      contentType: "application/json",
+      timestamp: 1700000000000,
+    };
+
+    it("should keep properties on the envelope", () => {
+      queue.publish({ type: "test", payload: "test" }, properties);
+
+      expect(queue.getQueue().sentMessages).toEqual([
+        { type: "test", payload: "test", id: 0, [envelope]: { properties } },
+      ]);
+    });
+
+    it("should pass properties to handlers", async () => {
+      const handler = jest.fn();
+      queue.subscribe("test", handler);
+
+      queue.publish({ type: "test" }, { correlationId: "request-1" });
+      await queue.flush();
+
+      expect(handler).toHaveBeenCalledWith({
+        type: "test",
+        id: 0,
+        [envelope]: { properties: { correlationId: "request-1" } },
+      });
+    });
+
+    it("should leave out properties when none were given", () => {
+      queue.publish({ type: "test" }, { delay: 0, correlationId: undefined });
+
+      expect(getMetadata(queue.getQueue().sentMessages[0])).toEqual({});
+    });
+
+    it("should keep properties on redelivery and dead-lettering", () => {
+      const deadLetters = new MessageQueue("test.dlq");
+      const source = new MessageQueue("source", {
+        deadLetterQueue: deadLetters,
+      });
+      source.publish({ type: "test" }, properties);
+
+      const message = source.receiveMessage("test", false)!;
+      source.nack(message);
+      expect(getMetadata(source.getQueue().sentMessages[0]).properties).toEqual(
+        properties,
+      );
+
+      source.nack(message, { requeue: false });
+      expect(
+        getMetadata(deadLetters.getQueue().sentMessages[0]).properties,
+      ).toEqual(properties);
+    });
+
+    it("should keep payload fields named like the envelope metadata", () => {
+      const deadLetters = new MessageQueue("test.dlq");
+      const source = new MessageQueue("source", {
+        deadLetterQueue: deadLetters,
+        schemas: { item: { required: ["properties", "redelivered"] } },
+      });
+      const item = {
+        type: "item",
+        properties: { color: "red" },
+        redelivered: "no",
+      };
+      source.publish(item, { correlationId: "c1" });
+
+      const message = source.receiveMessage("item", false)!;
+      expect(message.properties).toEqual({ color: "red" });
+      expect(toPayload(message)).toEqual(item);
+      expect(getMetadata(message)).toEqual({
+        properties: { correlationId: "c1" },
+      });
+      expect(toPayload({ ...message })).toEqual(item);
+      expect(getMetadata({ ...message }).properties).toEqual({
+        correlationId: "c1",
+      });
+      source.nack(message);
+      source.nack(message, { requeue: false });
+
+      const [deadLetter] = deadLetters.getQueue().sentMessages;
+      expect(toPayload(deadLetter)).toEqual(item);
+      expect(getMetadata(deadLetter).properties).toEqual({
+        correlationId: "c1",
+      });
+    });
+  });
+
+  describe("schemas", () => {
+    const schemas = {
+      "order.created": {
+        type: "object" as const,
+        required: ["orderId"],
+        properties: { orderId: { type: "string" as const } },
+      },
+    };
+
+    it("should throw when publishing an invalid message", () => {
+      const validated = new MessageQueue("validated", { schemas });
+
+      expect(() =>
+        validated.publish({ type: "order.created", orderId: 1 }),
+      ).toThrow(
+        'Invalid message of type "order.created":\n  $.orderId must be string',
+      );
+      expect(validated.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should record invalid messages when configured", () => {
+      const validated = new MessageQueue("validated", {
+        schemas,
+        onInvalidMessage: "record",
+      });
+
+      validated.publish({ type: "order.created" });
+
+      expect(validated.getQueue().sentMessages).toHaveLength(1);
+      expect(validated.getQueue().invalidMessages).toEqual([
+        {
+          message: { type: "order.created" },
+          errors: ["$.orderId is required"],
+        },
+      ]);
+    });
+
+    it("should accept valid messages and types without a schema", () => {
+      const validated = new MessageQueue("validated", { schemas });
+
+      validated.publish({ type: "order.created", orderId: "order-1" });
+      validated.publish({ type: "order.cancelled" });
+      validated.publish({ payload: "untyped" });
+
+      expect(validated.getQueue().sentMessages).toHaveLength(3);
+    });
+
+    it("should use validator adapters", () => {
+      const validated = new MessageQueue("validated", {
+        schemas: {
+          ping: (payload) => Object.keys(payload as object).length === 1,
+        },
+      });
+
+      expect(validated.validateMessage({ type: "ping" })).toEqual({
+        valid: true,
+        errors: [],
+      });
+      expect(() => validated.publish({ type: "ping", extra: 1 })).toThrow(
+        "$ failed validation",
+      );
+    });
+  });
+
+  describe("on", () => {
+    it("should notify publish listeners when a message is enqueued", () => {
+      const listener = jest.fn();
+      const off = queue.on("publish", listener);
+
+      queue.publish({ type: "test" });
+      off();
+      queue.publish({ type: "test" });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: "test", id: 0 });
+    });
+
+    it("should keep listeners across clear", () => {
+      const listener = jest.fn();
+      queue.on("publish", listener);
+
+      queue.clear();
+      queue.publish({ type: "test" });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should surface listener errors on flush instead of in the caller", async () => {
+      const later = jest.fn();
+      queue.on("publish", () => {
+        throw new Error("listener failed");
+      });
+      queue.on("publish", later);
+
+      expect(queue.publish({ type: "test" })).toBe(0);
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+      expect(later).toHaveBeenCalledTimes(1);
+      await expect(queue.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+    });
+
+    it("should notify handler listeners within the handler context", async () => {
+      const events: unknown[] = [];
+      queue.on("deliver", ({ consumerTag }) =>
+        events.push(["deliver", consumerTag]),
+      );
+      queue.on("handlerStart", ({ consumerTag }) =>
+        events.push(["handlerStart", consumerTag, getHandlerContext()]),
+      );
+      queue.on("handlerEnd", ({ consumerTag }) =>
+        events.push(["handlerEnd", consumerTag]),
+      );
+      queue.on("handlerError", ({ error }) =>
+        events.push(["handlerError", error.message]),
+      );
+      queue.subscribe("ok", () => {}, { consumerTag: "ok-consumer" });
+      queue.subscribe("fail", () => Promise.reject("boom"));
+
+      queue.publish({ type: "ok" });
+      await queue.settle();
+      queue.publish({ type: "fail" });
+      await queue.settle();
+      queue.receiveMessage();
+
+      expect(events).toEqual([
+        ["deliver", "ok-consumer"],
+        [
+          "handlerStart",
+          "ok-consumer",
+          { queue: "test", messageId: 0, consumerTag: "ok-consumer" },
+        ],
+        ["handlerEnd", "ok-consumer"],
+        ["deliver", "consumer-1"],
+        [
+          "handlerStart",
+          "consumer-1",
+          { queue: "test", messageId: 1, consumerTag: "consumer-1" },
+        ],
+        ["handlerError", "boom"],
+        ["deliver", undefined],
+      ]);
+      expect(getHandlerContext()).toBeUndefined();
+    });
+  });
+
   describe("ack", () => {
     it("should ack a message", () => {
       queue.publish({ type: "test", payload: "test" });
@@ -76,6 +438,198 @@ describe("MessageQueue", () => {
     });
   });
 
+  describe("nack", () => {
+    it("should requeue a message by default and flag it as redelivered", () => {
+      queue.publish({ type: "test", payload: "test" });
+      const message = queue.receiveMessage("test", false);
+
+      queue.nack(message!);
+
+      const redelivered = queue.receiveMessage("test", false);
+      expect(redelivered).toEqual({
+        type: "test",
+        payload: "test",
+        id: 0,
+        [envelope]: { redelivered: true },
+      });
+      expect(queue.getDeliveryCount(redelivered!)).toBe(2);
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+    });
+
+    it("should reject a message when requeue is false", () => {
+      queue.publish({ type: "test", payload: "test" });
+      const message = queue.receiveMessage("test", false);
+
+      queue.nack(message!, { requeue: false });
+
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+      expect(queue.getQueue().receivedMessages).toHaveLength(0);
+      expect(queue.getQueue().rejectedMessages).toEqual([message]);
+    });
+
+    it("should ignore nack when message is not in sent queue", () => {
+      queue.publish({ type: "test", payload: "test" });
+      const message = queue.receiveMessage("test");
+
+      queue.nack(message!);
+
+      expect(queue.getQueue().receivedMessages).toHaveLength(1);
+      expect(queue.getQueue().rejectedMessages).toHaveLength(0);
+    });
+
+    it("should redeliver requeued messages to handlers", async () => {
+      const handler = jest.fn((message) => {
+        if (getMetadata(message).redelivered) {
+          queue.ack(message);
+        } else {
+          queue.nack(message);
+        }
+      });
+      queue.subscribe("retry", handler);
+
+      queue.publish({ type: "retry" });
+      await queue.flush();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler.mock.calls[1][0]).toEqual({
+        type: "retry",
+        id: 0,
+        [envelope]: { redelivered: true },
+      });
+      expect(queue.getQueue().receivedMessages).toHaveLength(1);
+    });
+
+    it("should reject messages that reached maxDeliveries", async () => {
+      const limited = new MessageQueue("limited", { maxDeliveries: 3 });
+      const handler = jest.fn((message) => limited.nack(message));
+      limited.subscribe("poison", handler);
+
+      limited.publish({ type: "poison" });
+      await limited.flush();
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(limited.getQueue().sentMessages).toHaveLength(0);
+      expect(limited.getQueue().rejectedMessages).toEqual([
+        { type: "poison", id: 0, [envelope]: { redelivered: true } },
+      ]);
+    });
+
+    it("should validate maxDeliveries", () => {
+      expect(() => new MessageQueue("test", { maxDeliveries: 0 })).toThrow(
+        "maxDeliveries must be a positive integer",
+      );
+    });
+  });
+
+  describe("deadLetterQueue", () => {
+    let deadLetters: MessageQueue;
+    let source: MessageQueue;
+
+    beforeEach(() => {
+      deadLetters = new MessageQueue("orders.dlq");
+      source = new MessageQueue("orders", {
+        deadLetterQueue: deadLetters,
+        maxDeliveries: 2,
+      });
+    });
+
+    it("should dead-letter messages rejected without requeue", () => {
+      source.publish({ type: "test", payload: "test" });
+      const message = source.receiveMessage("test", false);
+
+      source.nack(message!, { requeue: false });
+
+      expect(deadLetters.getQueue().sentMessages).toEqual([
+        {
+          type: "test",
+          payload: "test",
+          id: 0,
+          [envelope]: {
+            deadLetter: { reason: "rejected", queue: "orders", id: 0 },
+          },
+        },
+      ]);
+    });
+
+    it("should dead-letter messages past the delivery limit", async () => {
+      source.subscribe("test", (message) => source.nack(message));
+      source.publish({ type: "test" });
+      source.publish({ type: "test" });
+      await source.flush();
+
+      expect(
+        deadLetters
+          .getQueue()
+          .sentMessages.map((m) => getMetadata(m).deadLetter),
+      ).toEqual([
+        { reason: "delivery-limit", queue: "orders", id: 0 },
+        { reason: "delivery-limit", queue: "orders", id: 1 },
+      ]);
+    });
+
+    it("should dead-letter messages whose handler throws", async () => {
+      source.subscribe("test", () => {
+        throw new Error("handler failed");
+      });
+      source.publish({ type: "test" });
+
+      await expect(source.flush()).resolves.toBeUndefined();
+
+      const [deadLetter] = deadLetters.getQueue().sentMessages;
+      expect(getMetadata(deadLetter).deadLetter).toEqual({
+        reason: "handler-error",
+        queue: "orders",
+        id: 0,
+        error: new Error("handler failed"),
+      });
+      expect(source.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should surface errors of acknowledged messages instead", async () => {
+      source.subscribe("test", (message) => {
+        source.ack(message);
+        throw new Error("handler failed");
+      });
+      source.publish({ type: "test" });
+
+      await expect(source.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+      expect(deadLetters.getQueue().sentMessages).toHaveLength(0);
+      expect(source.getQueue().receivedMessages).toHaveLength(1);
+    });
+
+    it("should dead-letter once and surface further handler errors", async () => {
+      source.subscribe("test", () => {
+        throw new Error("first failed");
+      });
+      source.subscribe("test", () => {
+        throw new Error("second failed");
+      });
+      source.publish({ type: "test" });
+
+      const error = await source.flush().catch((error) => error);
+      expect(error.errors).toEqual([new Error("second failed")]);
+      expect(deadLetters.getQueue().sentMessages).toHaveLength(1);
+    });
+  });
+
+  describe("getDeliveryCount", () => {
+    it("should count pulls and handler dispatches", async () => {
+      queue.subscribe("test", jest.fn());
+      queue.publish({ type: "test" });
+      await queue.flush();
+
+      const message = queue.receiveMessage("test", false);
+      expect(queue.getDeliveryCount(message!)).toBe(2);
+    });
+
+    it("should be zero for messages never delivered", () => {
+      queue.publish({ type: "test" });
+      expect(queue.getDeliveryCount(queue.getQueue().sentMessages[0])).toBe(0);
+    });
+  });
+
   describe("receiveMessage", () => {
     it("should receive a message without specifying a type", () => {
       const message1 = { payload: "first message" };
@@ -106,6 +660,16 @@ describe("MessageQueue", () => {
       expect(receivedMessage).toBeUndefined();
     });
 
+    it("should receive a message by selector", () => {
+      queue.publish({ type: "order.created", orderId: 1 });
+      queue.publish({ type: "payment.created", amount: 5 });
+
+      expect(queue.receiveMessage("payment.*")).toMatchObject({ amount: 5 });
+      expect(queue.receiveMessage((m) => m.orderId === 1)).toMatchObject({
+        orderId: 1,
+      });
+    });
+
     it("should receive a message by type", () => {
       const message = { type: "test", payload: "test" };
       queue.publish(message);
@@ -133,6 +697,25 @@ describe("MessageQueue", () => {
       ]);
     });
 
+    it("should list the subscribed handlers", () => {
+      const handler = jest.fn();
+      const limited = jest.fn();
+      queue.subscribe("orderCreated", handler);
+      const unsubscribe = queue.subscribe("orderCreated", handler);
+      queue.subscribe("orderCreated", limited, { prefetch: 1 });
+
+      expect(queue.getQueue().handlers.get("orderCreated")).toEqual([
+        handler,
+        handler,
+        limited,
+      ]);
+      unsubscribe();
+      expect(queue.getQueue().handlers.get("orderCreated")).toEqual([
+        handler,
+        limited,
+      ]);
+    });
+
     it("should unsubscribe a subscribed handler", async () => {
       const handler = jest.fn();
       const unsubscribe = queue.subscribe("orderCreated", handler);
@@ -205,49 +788,143 @@ describe("MessageQueue", () => {
       expect(asyncHandler).toHaveBeenCalled();
     });
 
-    it("should not call handlers for other message types", () => {
+    it("should dispatch to topic pattern selectors", async () => {
       const handler = jest.fn();
-      queue.subscribe("orderCreated", handler);
+      queue.subscribe("order.*", handler);
 
-      queue.publish({ type: "paymentProcessed" });
+      queue.publish({ type: "order.created" });
+      queue.publish({ type: "order.created.eu" });
+      queue.publish({ type: "payment.created" });
 
-      expect(handler).not.toHaveBeenCalled();
+      await queue.flush();
+      expect(handler.mock.calls.map(([message]) => message.type)).toEqual([
+        "order.created",
+      ]);
     });
 
-    it("subscribe return should remove the handler (specific type)", async () => {
+    it("should dispatch multi-word wildcard selectors", async () => {
       const handler = jest.fn();
-      const unsubscribe = queue.subscribe("orderCreated", handler);
+      queue.subscribe("order.#", handler);
 
-      const message = { type: "orderCreated", orderId: 123 };
-      queue.publish(message);
+      queue.publish({ type: "order" });
+      queue.publish({ type: "order.created.eu" });
 
-      unsubscribe();
+      await queue.flush();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
 
-      queue.publish(message);
+    it("should dispatch to RegExp selectors", async () => {
+      const handler = jest.fn();
+      queue.subscribe(/^order\.(created|cancelled)$/g, handler);
 
-      await queue.flush();
+      queue.publish({ type: "order.created" });
+      queue.publish({ type: "order.cancelled" });
+      queue.publish({ type: "order.updated" });
+      queue.publish({ payload: "untyped" });
 
-      expect(handler).toHaveBeenCalledTimes(1);
+      await queue.flush();
+      expect(handler).toHaveBeenCalledTimes(2);
     });
 
-    it("subscribe return should remove the handler (default type)", async () => {
+    it("should dispatch to predicate selectors", async () => {
       const handler = jest.fn();
-      const unsubscribe = queue.subscribe(undefined, handler);
+      queue.subscribe((message) => message.amount === 100, handler);
 
-      const message = { type: "anyType", orderId: 123 };
-      queue.publish(message);
+      queue.publish({ type: "payment", amount: 100 });
+      queue.publish({ type: "payment", amount: 5 });
+      queue.publish({ amount: 100 });
 
-      unsubscribe();
+      await queue.flush();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
 
-      queue.publish(message);
+    it("should surface predicate selector errors and skip the handler", async () => {
+      const handler = jest.fn();
+      queue.subscribe(() => {
+        throw new Error("predicate failed");
+      }, handler);
 
-      await queue.flush();
+      queue.publish({ type: "test" });
 
-      expect(handler).toHaveBeenCalledTimes(1);
+      await expect(queue.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+      expect(handler).not.toHaveBeenCalled();
     });
 
-    it("subscribe return should handle multiple handlers for the same type", async () => {
-      const handler1 = jest.fn();
+    it("should call every matching handler once, default handlers last", async () => {
+      const calls: string[] = [];
+      queue.subscribe(undefined, () => {
+        calls.push("default");
+      });
+      queue.subscribe("order.*", () => {
+        calls.push("pattern");
+      });
+      queue.subscribe("order.created", () => {
+        calls.push("exact");
+      });
+
+      queue.publish({ type: "order.created" });
+
+      await queue.flush();
+      expect(calls).toEqual(["pattern", "exact", "default"]);
+    });
+
+    it("subscribe return should remove the handler (predicate selector)", async () => {
+      const handler = jest.fn();
+      const unsubscribe = queue.subscribe(() => true, handler);
+
+      queue.publish({ type: "test" });
+      unsubscribe();
+      queue.publish({ type: "test" });
+
+      await queue.flush();
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not call handlers for other message types", () => {
+      const handler = jest.fn();
+      queue.subscribe("orderCreated", handler);
+
+      queue.publish({ type: "paymentProcessed" });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("subscribe return should remove the handler (specific type)", async () => {
+      const handler = jest.fn();
+      const unsubscribe = queue.subscribe("orderCreated", handler);
+
+      const message = { type: "orderCreated", orderId: 123 };
+      queue.publish(message);
+
+      unsubscribe();
+
+      queue.publish(message);
+
+      await queue.flush();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("subscribe return should remove the handler (default type)", async () => {
+      const handler = jest.fn();
+      const unsubscribe = queue.subscribe(undefined, handler);
+
+      const message = { type: "anyType", orderId: 123 };
+      queue.publish(message);
+
+      unsubscribe();
+
+      queue.publish(message);
+
+      await queue.flush();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("subscribe return should handle multiple handlers for the same type", async () => {
+      const handler1 = jest.fn();
       const handler2 = jest.fn();
 
       const unsubscribe1 = queue.subscribe("orderCreated", handler1);
@@ -279,6 +956,1058 @@ describe("MessageQueue", () => {
     });
   });
 
+  describe("concurrency", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const settle = async (target: MessageQueue) => {
+      await jest.runAllTimersAsync();
+      await target.flush();
+    };
+
+    // Records handler starts and ends; later messages finish sooner.
+    const trackHandler = () => {
+      const events: string[] = [];
+      const handler = jest.fn(async (message: { id: number }) => {
+        events.push(`start ${message.id}`);
+        await new Promise((resolve) => setTimeout(resolve, 10 - message.id));
+        events.push(`end ${message.id}`);
+      });
+      return { events, handler };
+    };
+
+    it("should run handler calls concurrently by default", async () => {
+      const { events, handler } = trackHandler();
+      queue.subscribe("test", handler);
+
+      queue.publish({ type: "test" });
+      queue.publish({ type: "test" });
+      await settle(queue);
+
+      expect(events).toEqual(["start 0", "start 1", "end 1", "end 0"]);
+    });
+
+    it("should limit concurrent calls to the prefetch", async () => {
+      const { events, handler } = trackHandler();
+      queue.subscribe("test", handler, { prefetch: 2 });
+
+      queue.publish({ type: "test" });
+      queue.publish({ type: "test" });
+      queue.publish({ type: "test" });
+      await settle(queue);
+
+      expect(events).toEqual([
+        "start 0",
+        "start 1",
+        "end 1",
+        "start 2",
+        "end 0",
+        "end 2",
+      ]);
+    });
+
+    it("should handle messages in order with a prefetch of 1", async () => {
+      const { events, handler } = trackHandler();
+      const ordered = new MessageQueue("ordered", { prefetch: 1 });
+      ordered.subscribe("test", handler);
+
+      ordered.publish({ type: "test" });
+      ordered.publish({ type: "test" });
+      await settle(ordered);
+
+      expect(events).toEqual(["start 0", "end 0", "start 1", "end 1"]);
+    });
+
+    it("should let the subscription override the queue prefetch", async () => {
+      const { events, handler } = trackHandler();
+      const ordered = new MessageQueue("ordered", { prefetch: 1 });
+      ordered.subscribe("test", handler, { prefetch: 2 });
+
+      ordered.publish({ type: "test" });
+      ordered.publish({ type: "test" });
+      await settle(ordered);
+
+      expect(events).toEqual(["start 0", "start 1", "end 1", "end 0"]);
+    });
+
+    it("should keep processing after a handler error", async () => {
+      const handler = jest.fn(async (message: { id: number }) => {
+        if (message.id === 0) {
+          throw new Error("handler failed");
+        }
+      });
+      queue.subscribe("test", handler, { prefetch: 1 });
+
+      queue.publish({ type: "test" });
+      queue.publish({ type: "test" });
+
+      await expect(queue.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should dispatch one message at a time in sequential mode", async () => {
+      const first = trackHandler();
+      const second = trackHandler();
+      const sequential = new MessageQueue("sequential", { sequential: true });
+      sequential.subscribe("test", first.handler);
+      sequential.subscribe(undefined, second.handler);
+
+      sequential.publish({ type: "test" });
+      sequential.publish({ type: "test" });
+      await settle(sequential);
+
+      expect(first.events).toEqual(["start 0", "end 0", "start 1", "end 1"]);
+      expect(second.events).toEqual(["start 0", "end 0", "start 1", "end 1"]);
+    });
+
+    it("should validate prefetch", () => {
+      expect(() => new MessageQueue("test", { prefetch: 0 })).toThrow(
+        "prefetch must be a positive integer",
+      );
+      expect(() =>
+        queue.subscribe("test", jest.fn(), { prefetch: 1.5 }),
+      ).toThrow("prefetch must be a positive integer");
+    });
+  });
+
+  describe("delivery", () => {
+    const subscribeWorkers = (workQueue: MessageQueue, count: number) =>
+      Array.from({ length: count }, (_, index) => {
+        const handler = jest.fn();
+        workQueue.subscribe("task", handler, {
+          consumerTag: `worker-${index}`,
+        });
+        return handler;
+      });
+    const consumerTags = (workQueue: MessageQueue) =>
+      workQueue.getQueue().deliveries.map(({ consumerTag }) => consumerTag);
+
+    it("should broadcast to every subscription by default", async () => {
+      const workers = subscribeWorkers(queue, 2);
+
+      queue.publish({ type: "task" });
+      await queue.flush();
+
+      workers.forEach((worker) => expect(worker).toHaveBeenCalledTimes(1));
+      expect(queue.getQueue().deliveries).toEqual([
+        { id: 0, consumerTag: "worker-0" },
+        { id: 0, consumerTag: "worker-1" },
+      ]);
+    });
+
+    it("should name subscriptions by default", () => {
+      queue.subscribe("task", jest.fn());
+      queue.subscribe(undefined, jest.fn());
+
+      queue.publish({ type: "task" });
+
+      expect(consumerTags(queue)).toEqual(["consumer-0", "consumer-1"]);
+    });
+
+    it("should hand each message to one consumer in turn", async () => {
+      const workQueue = new MessageQueue("work", { delivery: "round-robin" });
+      const workers = subscribeWorkers(workQueue, 3);
+
+      for (let i = 0; i < 4; i++) {
+        workQueue.publish({ type: "task" });
+      }
+      await workQueue.flush();
+
+      expect(consumerTags(workQueue)).toEqual([
+        "worker-0",
+        "worker-1",
+        "worker-2",
+        "worker-0",
+      ]);
+      expect(workers.map((worker) => worker.mock.calls.length)).toEqual([
+        2, 1, 1,
+      ]);
+    });
+
+    it("should pick reproducible random consumers with a seed", () => {
+      const pick = () => {
+        const workQueue = new MessageQueue("work", {
+          delivery: "random",
+          seed: 42,
+        });
+        subscribeWorkers(workQueue, 3);
+        for (let i = 0; i < 10; i++) {
+          workQueue.publish({ type: "task" });
+        }
+        return workQueue.getQueue().deliveries;
+      };
+
+      const deliveries = pick();
+
+      expect(deliveries).toHaveLength(10);
+      expect(new Set(deliveries.map(({ id }) => id)).size).toBe(10);
+      expect(pick()).toEqual(deliveries);
+    });
+
+    it("should repeat the seeded picks after clear", () => {
+      const workQueue = new MessageQueue("work", {
+        delivery: "random",
+        seed: 42,
+      });
+      const pick = () => {
+        subscribeWorkers(workQueue, 2);
+        for (let i = 0; i < 6; i++) {
+          workQueue.publish({ type: "task" });
+        }
+        return workQueue.getQueue().deliveries;
+      };
+
+      const deliveries = pick();
+      workQueue.clear();
+
+      expect(pick()).toEqual(deliveries);
+    });
+
+    it("should pick the consumer with the fewest calls in flight", async () => {
+      const workQueue = new MessageQueue("work", { delivery: "least-busy" });
+      const release: (() => void)[] = [];
+      workQueue.subscribe(
+        "task",
+        () => new Promise<void>((resolve) => release.push(resolve)),
+        { consumerTag: "slow" },
+      );
+      workQueue.subscribe("task", jest.fn(), { consumerTag: "fast" });
+
+      workQueue.publish({ type: "task" });
+      workQueue.publish({ type: "task" });
+      await new Promise((resolve) => setImmediate(resolve));
+      workQueue.publish({ type: "task" });
+      release.forEach((resolve) => resolve());
+      await workQueue.flush();
+
+      expect(consumerTags(workQueue)).toEqual(["slow", "fast", "fast"]);
+    });
+
+    it("should only compete among matching subscriptions", async () => {
+      const workQueue = new MessageQueue("work", { delivery: "round-robin" });
+      const tasks = jest.fn();
+      const reports = jest.fn();
+      workQueue.subscribe("task", tasks);
+      workQueue.subscribe("report", reports);
+
+      workQueue.publish({ type: "task" });
+      workQueue.publish({ type: "task" });
+      await workQueue.flush();
+
+      expect(tasks).toHaveBeenCalledTimes(2);
+      expect(reports).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown delivery modes", () => {
+      expect(
+        () =>
+          new MessageQueue("work", {
+            delivery: "sticky" as unknown as "broadcast",
+          }),
+      ).toThrow("Unknown delivery mode: sticky");
+    });
+  });
+
+  describe("fault injection", () => {
+    it("should fail the next publishes", () => {
+      queue.injectFaults({ failPublishes: 2 });
+
+      expect(() => queue.publish({ type: "test" })).toThrow(
+        'Publish to queue "test" failed: injected publish failure',
+      );
+      expect(() => queue.publish({ type: "test" })).toThrow();
+      expect(queue.publish({ type: "test" })).toBe(0);
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+    });
+
+    it("should delay delivery by a fixed latency", () => {
+      jest.useFakeTimers();
+      try {
+        queue.injectFaults({ latency: 100 });
+        queue.publish({ type: "test" });
+
+        expect(queue.getQueue().scheduledMessages).toHaveLength(1);
+        jest.advanceTimersByTime(100);
+        expect(queue.getQueue().sentMessages).toEqual([
+          { type: "test", id: 0 },
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should draw random latencies within the range", () => {
+      jest.useFakeTimers();
+      try {
+        queue.injectFaults({ latency: { min: 10, max: 50 }, seed: 1 });
+        for (let i = 0; i < 5; i++) {
+          queue.publish({ type: "test" });
+        }
+
+        jest.advanceTimersByTime(9);
+        expect(queue.getQueue().sentMessages).toHaveLength(0);
+        jest.advanceTimersByTime(41);
+        expect(queue.getQueue().sentMessages).toHaveLength(5);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should drop and duplicate messages reproducibly", () => {
+      const publishAll = () => {
+        const faulty = new MessageQueue("faulty");
+        faulty.injectFaults({ dropRate: 0.3, duplicateRate: 0.3, seed: 7 });
+        for (let i = 0; i < 20; i++) {
+          faulty.publish({ type: "test", index: i });
+        }
+        return faulty.getQueue();
+      };
+
+      const { sentMessages, droppedMessages } = publishAll();
+      const indexes = sentMessages.map(({ index }) => index);
+
+      expect(droppedMessages.length).toBeGreaterThan(0);
+      expect(new Set(indexes).size).toBeLessThan(indexes.length);
+      expect(publishAll().sentMessages).toEqual(sentMessages);
+    });
+
+    it("should always drop or redeliver at a rate of 1", () => {
+      queue.injectFaults({ dropRate: 1 });
+      expect(queue.publish({ type: "lost" })).toBe(0);
+
+      queue.injectFaults({ duplicateRate: 1 });
+      queue.publish({ type: "twice" });
+
+      expect(queue.getQueue().droppedMessages).toEqual([
+        { type: "lost", id: 0 },
+      ]);
+      expect(queue.getQueue().sentMessages).toEqual([
+        { type: "twice", id: 1 },
+        { type: "twice", id: 1, [envelope]: { redelivered: true } },
+      ]);
+
+      queue.ack(queue.getQueue().sentMessages[1]);
+      expect(queue.getQueue().sentMessages).toEqual([{ type: "twice", id: 1 }]);
+    });
+
+    it("should pause handler dispatch while disconnected", async () => {
+      const handler = jest.fn();
+      queue.subscribe("test", handler);
+
+      queue.disconnect();
+      queue.publish({ type: "test", index: 0 });
+      queue.publish({ type: "test", index: 1 });
+      queue.publish({ type: "test", index: 2 });
+      queue.receiveMessage((message) => message.index === 1);
+      await queue.flush();
+      expect(handler).not.toHaveBeenCalled();
+
+      queue.reconnect();
+      await queue.flush();
+      expect(handler.mock.calls.map(([message]) => message.index)).toEqual([
+        0, 2,
+      ]);
+    });
+
+    it("should stop injecting faults and reconnect on clear", async () => {
+      queue.injectFaults({ failPublishes: 1, dropRate: 1 });
+      queue.disconnect();
+
+      queue.clear();
+      const handler = jest.fn();
+      queue.subscribe("test", handler);
+      queue.publish({ type: "test" });
+      await queue.flush();
+
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should validate faults", () => {
+      expect(() => queue.injectFaults({ failPublishes: -1 })).toThrow(
+        "failPublishes must be a non-negative integer",
+      );
+      expect(() => queue.injectFaults({ latency: { min: 5, max: 1 } })).toThrow(
+        "latency must be a non-negative number or range",
+      );
+      expect(() => queue.injectFaults({ dropRate: 2 })).toThrow(
+        "dropRate must be between 0 and 1",
+      );
+      expect(() => queue.injectFaults({ duplicateRate: -0.1 })).toThrow(
+        "duplicateRate must be between 0 and 1",
+      );
+    });
+  });
+
+  describe("overflow", () => {
+    it("should drop the oldest pending messages by default", () => {
+      const deadLetters = new MessageQueue("test.dlq");
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 2,
+        deadLetterQueue: deadLetters,
+      });
+
+      [1, 2, 3].forEach((n) => bounded.publish({ type: "test", n }));
+
+      expect(bounded.getQueue().sentMessages).toEqual([
+        { type: "test", n: 2, id: 1 },
+        { type: "test", n: 3, id: 2 },
+      ]);
+      expect(bounded.getQueue().droppedMessages).toEqual([
+        { type: "test", n: 1, id: 0 },
+      ]);
+      expect(bounded.getQueue().rejectedMessages).toEqual(
+        bounded.getQueue().droppedMessages,
+      );
+      expect(
+        getMetadata(deadLetters.getQueue().sentMessages[0]).deadLetter,
+      ).toEqual({
+        reason: "max-length",
+        queue: "bounded",
+        id: 0,
+      });
+    });
+
+    it("should reject publishes to a full queue", () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "reject-publish",
+      });
+      bounded.publish({ type: "test", n: 1 });
+
+      expect(() => bounded.publish({ type: "test", n: 2 })).toThrow(
+        'Publish to queue "bounded" rejected: queue is full',
+      );
+      expect(bounded.getQueue().sentMessages).toEqual([
+        { type: "test", n: 1, id: 0 },
+      ]);
+      expect(bounded.getQueue().droppedMessages).toEqual([
+        { type: "test", n: 2, id: 1 },
+      ]);
+
+      bounded.receiveMessage();
+      expect(() => bounded.publish({ type: "test", n: 3 })).not.toThrow();
+    });
+
+    it("should hold messages back until pending ones are settled", async () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "block",
+      });
+      const handler = jest.fn((message) => bounded.ack(message));
+
+      [1, 2, 3].forEach((n) => bounded.publish({ type: "test", n }));
+      expect(bounded.getQueue().sentMessages).toHaveLength(1);
+      expect(bounded.getQueue().blockedMessages).toEqual([
+        { type: "test", n: 2, id: 1 },
+        { type: "test", n: 3, id: 2 },
+      ]);
+
+      bounded.receiveMessage();
+      expect(bounded.getQueue().sentMessages).toEqual([
+        { type: "test", n: 2, id: 1 },
+      ]);
+
+      bounded.subscribe("test", handler);
+      bounded.nack(bounded.getQueue().sentMessages[0], { requeue: false });
+      await bounded.flush();
+
+      expect(handler).toHaveBeenCalledWith({ type: "test", n: 3, id: 2 });
+      expect(bounded.getQueue().blockedMessages).toHaveLength(0);
+      expect(bounded.getQueue().droppedMessages).toHaveLength(0);
+    });
+
+    it("should limit the pending payload bytes", () => {
+      const bounded = new MessageQueue("bounded", { maxBytes: 30 });
+
+      bounded.publish({ type: "test", n: 1 }); // 21 bytes
+      bounded.publish({ type: "test", n: 2 });
+
+      expect(bounded.getQueue().sentMessages).toEqual([
+        { type: "test", n: 2, id: 1 },
+      ]);
+      expect(() =>
+        bounded.publish({ type: "test", text: "x".repeat(30) }),
+      ).toThrow('Publish to queue "bounded" rejected: queue is full');
+      expect(bounded.getQueue().sentMessages).toHaveLength(1);
+    });
+
+    it("should drop delayed messages that do not fit without throwing", () => {
+      jest.useFakeTimers();
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "reject-publish",
+      });
+      bounded.publish({ type: "test", n: 1 }, { delay: 100 });
+      bounded.publish({ type: "test", n: 2 });
+
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+
+      expect(bounded.getQueue().droppedMessages).toEqual([
+        { type: "test", n: 1, id: 0 },
+      ]);
+    });
+
+    it("should validate the limits and policy", () => {
+      expect(() => new MessageQueue("bounded", { maxLength: 0 })).toThrow(
+        "maxLength must be a positive integer",
+      );
+      expect(() => new MessageQueue("bounded", { maxBytes: 1.5 })).toThrow(
+        "maxBytes must be a positive integer",
+      );
+      expect(
+        () =>
+          new MessageQueue("bounded", {
+            overflow: "reject" as "reject-publish",
+          }),
+      ).toThrow("Unknown overflow policy: reject");
+    });
+  });
+
+  describe("priority", () => {
+    let prioritized: MessageQueue;
+
+    beforeEach(() => {
+      prioritized = new MessageQueue("prioritized", { maxPriority: 5 });
+    });
+
+    const publishAll = (target: MessageQueue, priorities: number[]) =>
+      priorities.forEach((priority, n) =>
+        target.publish({ type: "test", n }, { priority }),
+      );
+    const pendingOrder = (target: MessageQueue) =>
+      target.getQueue().sentMessages.map((message) => message.n);
+
+    it("should receive higher priorities first, in publish order within a priority", () => {
+      publishAll(prioritized, [1, 3, 1, 3]);
+      prioritized.publish({ type: "test", n: 4 });
+
+      expect(pendingOrder(prioritized)).toEqual([1, 3, 0, 2, 4]);
+      expect(prioritized.receiveMessage()).toMatchObject({ n: 1 });
+      expect(prioritized.receiveMessage("test")).toMatchObject({ n: 3 });
+    });
+
+    it("should count priorities above maxPriority as maxPriority", () => {
+      publishAll(prioritized, [9, 5, 7]);
+
+      expect(pendingOrder(prioritized)).toEqual([0, 1, 2]);
+    });
+
+    it("should ignore priorities on other queues", () => {
+      publishAll(queue, [1, 3]);
+
+      expect(pendingOrder(queue)).toEqual([0, 1]);
+      expect(getMetadata(queue.getQueue().sentMessages[1]).properties).toEqual({
+        priority: 3,
+      });
+    });
+
+    it("should start waiting handler calls by priority", async () => {
+      const handled: unknown[] = [];
+      prioritized.subscribe(
+        "test",
+        async (message) => {
+          handled.push(message.n);
+          await Promise.resolve();
+        },
+        { prefetch: 1 },
+      );
+
+      publishAll(prioritized, [0, 1, 5, 1]);
+      await prioritized.flush();
+
+      expect(handled).toEqual([0, 2, 1, 3]);
+    });
+
+    it("should dispatch waiting messages by priority in sequential mode", async () => {
+      const sequential = new MessageQueue("sequential", {
+        maxPriority: 5,
+        sequential: true,
+      });
+      const handled: unknown[] = [];
+      sequential.subscribe("test", async (message) => {
+        handled.push(message.n);
+        await Promise.resolve();
+      });
+
+      publishAll(sequential, [0, 1, 5, 1]);
+      await sequential.flush();
+
+      expect(handled).toEqual([0, 2, 1, 3]);
+    });
+
+    it("should validate maxPriority and priorities", () => {
+      expect(() => new MessageQueue("prioritized", { maxPriority: 0 })).toThrow(
+        "maxPriority must be an integer between 1 and 255",
+      );
+      expect(() =>
+        prioritized.publish({ type: "test" }, { priority: 1.5 }),
+      ).toThrow("priority must be a non-negative integer");
+    });
+  });
+
+  describe("transaction", () => {
+    it("should publish and acknowledge everything on commit", async () => {
+      queue.publish({ type: "order.created" });
+      const order = queue.receiveMessage("order.created", false)!;
+
+      const result = await queue.transaction(async (tx) => {
+        tx.ack(order);
+        tx.publish({ type: "invoice.created" });
+        tx.publish({ type: "email.queued" }, { correlationId: "order-1" });
+        await Promise.resolve();
+        expect(queue.getQueue().sentMessages).toEqual([order]);
+        return "committed";
+      });
+
+      expect(result).toBe("committed");
+      expect(queue.getQueue().receivedMessages).toEqual([order]);
+      expect(queue.getQueue().sentMessages).toEqual([
+        { type: "invoice.created", id: 1 },
+        {
+          type: "email.queued",
+          id: 2,
+          [envelope]: { properties: { correlationId: "order-1" } },
+        },
+      ]);
+    });
+
+    it("should leave no partial state when the work throws", async () => {
+      queue.publish({ type: "order.created" });
+      const order = queue.receiveMessage("order.created", false)!;
+
+      await expect(
+        queue.transaction(async (tx) => {
+          tx.ack(order);
+          tx.publish({ type: "invoice.created" });
+          throw new Error("email service down");
+        }),
+      ).rejects.toThrow("email service down");
+
+      expect(queue.getQueue().sentMessages).toEqual([order]);
+      expect(queue.getQueue().receivedMessages).toHaveLength(0);
+    });
+
+    it("should roll back when a buffered message is invalid", async () => {
+      const validated = new MessageQueue("validated", {
+        schemas: { "order.created": { required: ["orderId"] } },
+      });
+
+      await expect(
+        validated.transaction((tx) => {
+          tx.publish({ type: "order.created", orderId: "order-1" });
+          tx.publish({ type: "order.created" });
+        }),
+      ).rejects.toThrow('Invalid message of type "order.created"');
+      expect(validated.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should record invalid messages only on commit", async () => {
+      const recording = new MessageQueue("recording", {
+        schemas: { "order.created": { required: ["orderId"] } },
+        onInvalidMessage: "record",
+      });
+
+      await expect(
+        recording.transaction((tx) => {
+          tx.publish({ type: "order.created" });
+          throw new Error("rolled back");
+        }),
+      ).rejects.toThrow("rolled back");
+      expect(recording.getQueue().invalidMessages).toHaveLength(0);
+
+      await recording.transaction((tx) =>
+        tx.publish({ type: "order.created" }),
+      );
+      expect(recording.getQueue().invalidMessages).toEqual([
+        {
+          message: { type: "order.created" },
+          errors: ["$.orderId is required"],
+        },
+      ]);
+    });
+
+    it("should fail the whole commit on an injected publish failure", async () => {
+      queue.injectFaults({ failPublishes: 1 });
+
+      await expect(
+        queue.transaction((tx) => {
+          tx.publish({ type: "first" });
+          tx.publish({ type: "second" });
+        }),
+      ).rejects.toThrow(
+        'Publish to queue "test" failed: injected publish failure',
+      );
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should draw injected faults once for the whole commit", async () => {
+      const publishSix = (tx: QueueTransaction) => {
+        for (let index = 0; index < 6; index++) {
+          tx.publish({ type: "test", index });
+        }
+      };
+      queue.injectFaults({ dropRate: 1 });
+      await expect(queue.transaction(publishSix)).rejects.toThrow(
+        'Publish to queue "test" failed: messages were lost',
+      );
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+      expect(queue.getQueue().droppedMessages).toHaveLength(0);
+
+      queue.injectFaults({ dropRate: 0.5, seed: 1 });
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const before = queue.getQueue().sentMessages.length;
+        await queue.transaction(publishSix).catch(() => {});
+        expect([before, before + 6]).toContain(
+          queue.getQueue().sentMessages.length,
+        );
+      }
+
+      queue.clear();
+      queue.injectFaults({ duplicateRate: 1 });
+      await queue.transaction(publishSix);
+      expect(queue.getQueue().sentMessages).toHaveLength(12);
+    });
+
+    it("should throw on use once settled", async () => {
+      queue.publish({ type: "order.created" });
+      const order = queue.receiveMessage("order.created", false)!;
+      let transaction: QueueTransaction | undefined;
+      await queue.transaction((tx) => {
+        transaction = tx;
+      });
+
+      expect(() => transaction!.publish({ type: "late" })).toThrow(
+        'Transaction on queue "test" was already committed or rolled back',
+      );
+      expect(() => transaction!.ack(order)).toThrow(
+        "already committed or rolled back",
+      );
+      expect(queue.getQueue().sentMessages).toEqual([order]);
+    });
+
+    it("should not use up injected publish failures without publishes", async () => {
+      queue.publish({ type: "order.created" });
+      const order = queue.receiveMessage("order.created", false)!;
+      queue.injectFaults({ failPublishes: 1 });
+
+      await queue.transaction((tx) => tx.ack(order));
+
+      expect(queue.getQueue().receivedMessages).toEqual([order]);
+      expect(() => queue.publish({ type: "test" })).toThrow(
+        "injected publish failure",
+      );
+    });
+
+    it("should fail the whole commit when the queue would reject a message", async () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 2,
+        overflow: "reject-publish",
+      });
+      bounded.publish({ type: "order.created" });
+      const order = bounded.receiveMessage("order.created", false)!;
+
+      await expect(
+        bounded.transaction((tx) => {
+          tx.publish({ type: "first" });
+          tx.publish({ type: "second" });
+        }),
+      ).rejects.toThrow('Publish to queue "bounded" rejected: queue is full');
+      expect(bounded.getQueue().sentMessages).toEqual([order]);
+      expect(bounded.getQueue().droppedMessages).toHaveLength(0);
+
+      await bounded.transaction((tx) => {
+        tx.ack(order);
+        tx.publish({ type: "first" });
+        tx.publish({ type: "second" });
+      });
+      expect(bounded.getQueue().sentMessages).toHaveLength(2);
+    });
+  });
+
+  describe("publisher confirms", () => {
+    it("should resolve with the id once the message is enqueued", async () => {
+      await expect(
+        queue.publish({ type: "test" }, { confirm: true }),
+      ).resolves.toBe(0);
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+    });
+
+    it("should confirm delayed messages after their delay", async () => {
+      jest.useFakeTimers();
+      const confirmed = jest.fn();
+      queue
+        .publish({ type: "test" }, { delay: 100, confirm: true })
+        .then(confirmed);
+
+      await jest.advanceTimersByTimeAsync(99);
+      expect(confirmed).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      jest.useRealTimers();
+
+      expect(confirmed).toHaveBeenCalledWith(0);
+    });
+
+    it("should confirm blocked messages once they are enqueued", async () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "block",
+      });
+      const confirmed = jest.fn();
+      bounded.publish({ type: "first" });
+      bounded.publish({ type: "second" }, { confirm: true }).then(confirmed);
+
+      await Promise.resolve();
+      expect(confirmed).not.toHaveBeenCalled();
+      expect(bounded.getQueue().blockedMessages).toHaveLength(1);
+
+      bounded.receiveMessage();
+      await Promise.resolve();
+      expect(confirmed).toHaveBeenCalledWith(1);
+    });
+
+    it("should reject instead of throwing", async () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "reject-publish",
+      });
+      bounded.injectFaults({ failPublishes: 1 });
+
+      await expect(
+        bounded.publish({ type: "test" }, { confirm: true }),
+      ).rejects.toThrow("injected publish failure");
+      await expect(
+        bounded.publish({ type: "test" }, { confirm: true }),
+      ).resolves.toBe(0);
+      await expect(
+        bounded.publish({ type: "test" }, { confirm: true }),
+      ).rejects.toThrow('Publish to queue "bounded" rejected: queue is full');
+    });
+
+    it("should reject messages dropped after their delay or lost", async () => {
+      jest.useFakeTimers();
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "reject-publish",
+      });
+      const delayed = bounded.publish(
+        { type: "test" },
+        { delay: 100, confirm: true },
+      );
+      bounded.publish({ type: "test" });
+      const assertion = expect(delayed).rejects.toThrow("queue is full");
+      await jest.advanceTimersByTimeAsync(100);
+      jest.useRealTimers();
+      await assertion;
+
+      queue.injectFaults({ dropRate: 1 });
+      await expect(
+        queue.publish({ type: "test" }, { confirm: true }),
+      ).rejects.toThrow('Publish to queue "test" failed: message was lost');
+    });
+
+    it("should reject delayed and blocked messages on clear", async () => {
+      const bounded = new MessageQueue("bounded", {
+        maxLength: 1,
+        overflow: "block",
+      });
+      bounded.publish({ type: "first" });
+      const blocked = bounded.publish({ type: "second" }, { confirm: true });
+      const delayed = bounded.publish(
+        { type: "third" },
+        { delay: 100, confirm: true },
+      );
+
+      bounded.clear();
+
+      await expect(blocked).rejects.toThrow(
+        'Publish to queue "bounded" failed: queue was cleared',
+      );
+      await expect(delayed).rejects.toThrow("queue was cleared");
+      expect(bounded.getQueue().blockedMessages).toHaveLength(0);
+    });
+  });
+
+  describe("at-least-once delivery", () => {
+    it("should redeliver every message once its handlers settled", async () => {
+      const charges: number[] = [];
+      const payments = new MessageQueue("payments", {
+        atLeastOnce: { times: 2, snapshot: () => charges },
+      });
+      const handler = jest.fn((message) => {
+        charges.push(message.id);
+        payments.ack(message);
+      });
+      payments.subscribe("payment.requested", handler);
+
+      payments.publish({ type: "payment.requested" });
+      await payments.flush();
+
+      expect(handler.mock.calls).toEqual([
+        [{ type: "payment.requested", id: 0 }],
+        [
+          {
+            type: "payment.requested",
+            id: 0,
+            [envelope]: { redelivered: true },
+          },
+        ],
+        [
+          {
+            type: "payment.requested",
+            id: 0,
+            [envelope]: { redelivered: true },
+          },
+        ],
+      ]);
+      expect(payments.getQueue().receivedMessages).toHaveLength(1);
+      expect(payments.getQueue().duplicateDeliveries).toEqual([
+        {
+          message: { type: "payment.requested", id: 0 },
+          afterFirst: [0],
+          afterDuplicates: [
+            [0, 0],
+            [0, 0, 0],
+          ],
+        },
+      ]);
+    });
+
+    it("should redeliver once no first delivery is running", async () => {
+      jest.useFakeTimers();
+      try {
+        const rows = new Map<string, string>();
+        const orders = new MessageQueue("orders", {
+          atLeastOnce: { snapshot: () => Object.fromEntries(rows) },
+        });
+        const delays: Record<string, number> = { a: 10, b: 15 };
+        orders.subscribe("order.paid", async (message) => {
+          const { orderId } = message as unknown as { orderId: string };
+          await new Promise((resolve) => setTimeout(resolve, delays[orderId]));
+          rows.set(orderId, "paid");
+        });
+
+        orders.publish({ type: "order.paid", orderId: "a" });
+        orders.publish({ type: "order.paid", orderId: "b" });
+        const flushed = orders.flush();
+        await jest.runAllTimersAsync();
+        await flushed;
+
+        expect(orders.getQueue().duplicateDeliveries).toEqual([
+          {
+            message: { type: "order.paid", orderId: "a", id: 0 },
+            afterFirst: { a: "paid", b: "paid" },
+            afterDuplicates: [{ a: "paid", b: "paid" }],
+          },
+          {
+            message: { type: "order.paid", orderId: "b", id: 1 },
+            afterFirst: { a: "paid", b: "paid" },
+            afterDuplicates: [{ a: "paid", b: "paid" }],
+          },
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should only redeliver the selected messages", async () => {
+      const selective = new MessageQueue("selective", {
+        atLeastOnce: { selector: "payment.*" },
+      });
+      const handler = jest.fn();
+      selective.subscribe(undefined, handler);
+
+      selective.publish({ type: "payment.requested" });
+      selective.publish({ type: "email.queued" });
+      await selective.flush();
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(
+        selective.getQueue().duplicateDeliveries.map(({ message }) => message),
+      ).toEqual([{ type: "payment.requested", id: 0 }]);
+    });
+
+    it("should not redeliver messages without subscribers", () => {
+      const unsubscribed = new MessageQueue("unsubscribed", {
+        atLeastOnce: {},
+      });
+      unsubscribed.publish({ type: "test" });
+
+      expect(unsubscribed.getQueue().duplicateDeliveries).toHaveLength(0);
+    });
+
+    it("should report snapshot errors as handler errors", async () => {
+      const failing = new MessageQueue("failing", {
+        atLeastOnce: {
+          snapshot: () => {
+            throw new Error("snapshot failed");
+          },
+        },
+      });
+      failing.subscribe("test", () => {});
+      failing.publish({ type: "test" });
+
+      await expect(failing.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+    });
+
+    it("should validate the number of redeliveries", () => {
+      expect(
+        () => new MessageQueue("test", { atLeastOnce: { times: 0 } }),
+      ).toThrow("atLeastOnce.times must be a positive integer");
+    });
+  });
+
+  describe("dispatchTo", () => {
+    it("should hand a pending message to one subscription", async () => {
+      const first = jest.fn();
+      const second = jest.fn(() => {
+        throw new Error("handler failed");
+      });
+      queue.publish({ type: "test" });
+      queue.subscribe("test", first, { consumerTag: "first" });
+      queue.subscribe("test", second, { consumerTag: "second" });
+
+      void queue.dispatchTo(queue.getQueue().sentMessages[0], "second");
+
+      await expect(queue.flush()).rejects.toThrow(
+        "One or more message handlers failed",
+      );
+      expect(first).not.toHaveBeenCalled();
+      expect(queue.getQueue().deliveries).toEqual([
+        { id: 0, consumerTag: "second" },
+      ]);
+    });
+
+    it("should skip messages that are no longer pending", async () => {
+      const handler = jest.fn();
+      queue.publish({ type: "test" });
+      const message = queue.receiveMessage("test")!;
+      queue.subscribe("test", handler, { consumerTag: "worker" });
+
+      await queue.dispatchTo(message, "worker");
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should throw for unknown consumer tags", () => {
+      queue.publish({ type: "test" });
+
+      expect(() =>
+        queue.dispatchTo(queue.getQueue().sentMessages[0], "nobody"),
+      ).toThrow("Unknown consumer tag: nobody");
+    });
+  });
+
   describe("flush", () => {
     it("should surface handler errors", async () => {
       const handler = jest.fn(() => {
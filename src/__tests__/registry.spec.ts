@@ -0,0 +1,99 @@
+import { MessageQueue } from "../core/queue";
+import {
+  clearQueues,
+  getQueue,
+  registerQueue,
+  verifyQueues,
+} from "../core/registry";
+
+describe("queue registry", () => {
+  afterEach(() => {
+    clearQueues();
+  });
+
+  it("should share queues by name", () => {
+    const queue = getQueue("orders", { maxDeliveries: 2 });
+
+    expect(getQueue("orders")).toBe(queue);
+    expect(getQueue("payments")).not.toBe(queue);
+  });
+
+  it("should share registered queues", () => {
+    const queue = new MessageQueue("orders");
+    registerQueue(queue);
+
+    expect(getQueue("orders")).toBe(queue);
+  });
+
+  it("should clear every registered queue", () => {
+    getQueue("orders").publish({ type: "order.created" });
+    getQueue("payments").publish({ type: "payment.captured" });
+
+    clearQueues();
+
+    expect(getQueue("orders").getQueue().sentMessages).toHaveLength(0);
+    expect(getQueue("payments").getQueue().sentMessages).toHaveLength(0);
+  });
+
+  describe("verifyQueues", () => {
+    it("should pass for settled queues and clear them", async () => {
+      const queue = getQueue("orders");
+      queue.subscribe("order.created", (message) => queue.ack(message));
+      queue.publish({ type: "order.created" });
+      queue.publish({ type: "order.cancelled" });
+
+      await verifyQueues();
+
+      expect(queue.getQueue().receivedMessages).toHaveLength(0);
+    });
+
+    it("should fail on handler errors that were never awaited", async () => {
+      const queue = getQueue("orders");
+      queue.subscribe("order.created", () => {
+        throw new Error("handler failed");
+      });
+      queue.publish({ type: "order.created" });
+
+      await expect(verifyQueues({ unacknowledged: false })).rejects.toThrow(
+        'Queue "orders" has handler errors that were never awaited with flush():\n  handler failed',
+      );
+      expect(queue.getQueue().sentMessages).toHaveLength(0);
+    });
+
+    it("should not report handler errors surfaced by flush", async () => {
+      const queue = getQueue("orders");
+      queue.subscribe("order.created", () => {
+        throw new Error("handler failed");
+      });
+      queue.publish({ type: "order.created" });
+      await expect(queue.flush()).rejects.toThrow();
+
+      await expect(
+        verifyQueues({ unacknowledged: false }),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should fail on delivered but unacknowledged messages", async () => {
+      const queue = getQueue("orders");
+      queue.subscribe("order.created", () => {});
+      queue.publish({ type: "order.created" });
+      queue.publish({ type: "order.cancelled" });
+
+      await expect(verifyQueues()).rejects.toThrow(
+        'Queue "orders" has unacknowledged messages:\n  {"id": 0, "type": "order.created"}',
+      );
+    });
+
+    it("should skip disabled checks", async () => {
+      const queue = getQueue("orders");
+      queue.subscribe("order.created", () => {
+        throw new Error("handler failed");
+      });
+      queue.publish({ type: "order.created" });
+
+      await expect(
+        verifyQueues({ handlerErrors: false, unacknowledged: false }),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
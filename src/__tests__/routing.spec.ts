@@ -0,0 +1,21 @@
+import { matchesTopic } from "../core/routing";
+
+describe("matchesTopic", () => {
+  it.each([
+    ["order.created", "order.created", true],
+    ["order.created", "order.updated", false],
+    ["order.*", "order.created", true],
+    ["order.*", "order.created.eu", false],
+    ["order.*", "order", false],
+    ["*.created.*", "order.created.eu", true],
+    ["order.#", "order", true],
+    ["order.#", "order.created.eu", true],
+    ["#.eu", "order.created.eu", true],
+    ["#.eu", "order.created.us", false],
+    ["order.#.eu", "order.eu", true],
+    ["#", "anything.at.all", true],
+    ["order.*.#", "order", false],
+  ])("matches %p against %p: %p", (pattern, routingKey, expected) => {
+    expect(matchesTopic(pattern, routingKey)).toBe(expected);
+  });
+});
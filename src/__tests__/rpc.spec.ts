@@ -0,0 +1,178 @@
+import "../matchers";
+import { MessageQueue, envelope } from "../core/queue";
+import { clearQueues, getQueue } from "../core/registry";
+import { request, respond } from "../core/rpc";
+
+describe("request/reply", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("pricing");
+  });
+
+  afterEach(() => {
+    clearQueues();
+  });
+
+  it("should resolve with the responder's reply", async () => {
+    respond(queue, "price.quote", (message) => ({
+      type: "price.quoted",
+      sku: message.sku,
+      price: 42,
+    }));
+
+    const reply = await request(queue, { type: "price.quote", sku: "a" });
+
+    expect(reply).toMatchObject({
+      type: "price.quoted",
+      sku: "a",
+      price: 42,
+      [envelope]: { properties: { correlationId: expect.any(String) } },
+    });
+    expect(queue).toHaveAcknowledged({ type: "price.quote", sku: "a" });
+  });
+
+  it("should publish requests with replyTo and correlationId", async () => {
+    const replyQueue = new MessageQueue("pricing.replies");
+    const replying = request(
+      queue,
+      { type: "price.quote", sku: "a" },
+      { replyQueue, correlationId: "quote-1", headers: { "x-tenant": "acme" } },
+    );
+
+    expect(queue).toBeInQueue(
+      { type: "price.quote", sku: "a" },
+      {
+        properties: {
+          correlationId: "quote-1",
+          replyTo: "pricing.replies",
+          headers: { "x-tenant": "acme" },
+        },
+      },
+    );
+
+    replyQueue.publish({ type: "other" }, { correlationId: "quote-2" });
+    replyQueue.publish({ type: "price.quoted" }, { correlationId: "quote-1" });
+
+    await expect(replying).resolves.toMatchObject({ type: "price.quoted" });
+    expect(replyQueue).toHaveAcknowledged({ type: "price.quoted" });
+    expect(replyQueue).toBeInQueue({ type: "other" });
+  });
+
+  it("should reply to a custom reply queue without sharing it", async () => {
+    respond(queue, "price.quote", () => ({ type: "price.quoted" }));
+    const shared = getQueue("quotes");
+    const replyQueue = new MessageQueue("quotes");
+
+    await expect(
+      request(queue, { type: "price.quote" }, { replyQueue }),
+    ).resolves.toMatchObject({ type: "price.quoted" });
+    expect(replyQueue).toHaveAcknowledged({ type: "price.quoted" });
+    expect(getQueue("quotes")).toBe(shared);
+    expect(shared).toHaveEmptyQueue();
+
+    queue.publish({ type: "price.quote" }, { replyTo: "quotes" });
+    await queue.flush();
+    expect(shared).toBeInQueue({ type: "price.quoted" });
+    expect(replyQueue.getQueue().sentMessages).toHaveLength(0);
+  });
+
+  it("should route concurrent replies by correlation id", async () => {
+    respond(queue, "price.quote", async (message) => {
+      await new Promise((resolve) =>
+        setTimeout(resolve, message.delay as number),
+      );
+      return { type: "price.quoted", sku: message.sku };
+    });
+
+    const [first, second] = await Promise.all([
+      request(queue, { type: "price.quote", sku: "a", delay: 20 }),
+      request(queue, { type: "price.quote", sku: "b", delay: 0 }),
+    ]);
+
+    expect(first.sku).toBe("a");
+    expect(second.sku).toBe("b");
+  });
+
+  it("should reject when no reply arrives in time", async () => {
+    jest.useFakeTimers();
+    try {
+      const replying = request(
+        queue,
+        { type: "price.quote" },
+        { timeout: 500, correlationId: "quote-1" },
+      );
+      jest.advanceTimersByTime(500);
+
+      await expect(replying).rejects.toThrow(
+        'Timeout waiting for reply to message type: price.quote (correlationId: quote-1) on queue "pricing.reply"',
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should reject when the request cannot be published", async () => {
+    const strict = new MessageQueue("pricing", {
+      schemas: { "price.quote": { required: ["sku"] } },
+    });
+
+    await expect(request(strict, { type: "price.quote" })).rejects.toThrow(
+      'Invalid message of type "price.quote"',
+    );
+  });
+
+  it("should handle requests without replyTo without replying", async () => {
+    const handler = jest.fn(() => ({ type: "price.quoted" }));
+    respond(queue, "price.quote", handler);
+
+    queue.publish({ type: "price.quote" });
+    await queue.flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue).toHaveEmptyQueue();
+  });
+
+  it("should reply to any shared queue named by replyTo", async () => {
+    respond(queue, "price.quote", () => ({ type: "price.quoted" }));
+
+    queue.publish(
+      { type: "price.quote" },
+      { replyTo: "quotes", correlationId: "quote-1" },
+    );
+    await queue.flush();
+
+    expect(getQueue("quotes")).toBeInQueue(
+      { type: "price.quoted" },
+      { properties: { correlationId: "quote-1" } },
+    );
+  });
+
+  it("should share reply queues through the registry", async () => {
+    respond(queue, "price.quote", () => ({ type: "price.quoted" }));
+    const late = request(queue, { type: "other" }, { timeout: 0 });
+    await expect(late).rejects.toThrow("Timeout waiting for reply");
+
+    const replyQueue = getQueue("pricing.reply");
+    replyQueue.publish({ type: "price.quoted" }, { correlationId: "stale" });
+    clearQueues();
+
+    expect(replyQueue).toHaveEmptyQueue();
+    await expect(
+      request(queue, { type: "price.quote" }),
+    ).resolves.toMatchObject({ type: "price.quoted" });
+    expect(getQueue("pricing.reply")).toBe(replyQueue);
+  });
+
+  it("should stop responding once unsubscribed", async () => {
+    const stop = respond(queue, "price.quote", () => ({
+      type: "price.quoted",
+    }));
+    stop();
+
+    queue.publish({ type: "price.quote" });
+    await queue.flush();
+
+    expect(queue).toBeInQueue({ type: "price.quote" });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  validateJsonSchema,
+  validatePayload,
+  type JsonSchema,
+} from "../core/schema";
+
+describe("validateJsonSchema", () => {
+  const orderSchema: JsonSchema = {
+    type: "object",
+    required: ["type", "orderId", "lines"],
+    additionalProperties: false,
+    properties: {
+      type: { const: "order.created" },
+      orderId: { type: "string", pattern: "^order-", minLength: 7 },
+      status: { enum: ["new", "paid"] },
+      total: { type: "number", minimum: 0, maximum: 1000 },
+      lines: {
+        type: "array",
+        minItems: 1,
+        maxItems: 2,
+        items: {
+          type: "object",
+          required: ["sku"],
+          properties: { quantity: { type: "integer" } },
+          additionalProperties: { type: "string", maxLength: 3 },
+        },
+      },
+    },
+  };
+
+  it("should accept a valid value", () => {
+    expect(
+      validateJsonSchema(orderSchema, {
+        type: "order.created",
+        orderId: "order-123",
+        status: "paid",
+        total: 10,
+        lines: [{ sku: "abc", quantity: 2 }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report every violation with its path", () => {
+    expect(
+      validateJsonSchema(orderSchema, {
+        type: "order.updated",
+        orderId: "ord",
+        status: "lost",
+        total: -1,
+        lines: [{ quantity: 1.5, sku: "abcd" }, {}, {}],
+        extra: true,
+      }),
+    ).toEqual([
+      '$.type must be "order.created"',
+      "$.orderId must have at least 7 characters",
+      "$.orderId must match ^order-",
+      '$.status must be one of "new", "paid"',
+      "$.total must be >= 0",
+      "$.lines must have at most 2 items",
+      "$.lines[0].quantity must be integer",
+      "$.lines[0].sku must have at most 3 characters",
+      "$.lines[1].sku is required",
+      "$.lines[2].sku is required",
+      "$.extra is not allowed",
+    ]);
+  });
+
+  it("should report missing required properties and other bounds", () => {
+    expect(
+      validateJsonSchema(orderSchema, { type: "order.created", lines: [] }),
+    ).toEqual(["$.orderId is required", "$.lines must have at least 1 items"]);
+    expect(validateJsonSchema({ maxLength: 1, maximum: 1 }, "ab")).toEqual([
+      "$ must have at most 1 characters",
+    ]);
+    expect(validateJsonSchema({ maximum: 1 }, 2)).toEqual(["$ must be <= 1"]);
+  });
+
+  it("should not take inherited properties for required ones", () => {
+    expect(
+      validateJsonSchema({ type: "object", required: ["constructor"] }, {}),
+    ).toEqual(["$.constructor is required"]);
+  });
+
+  it("should stop at a type mismatch", () => {
+    expect(validateJsonSchema({ type: ["string", "null"] }, 1)).toEqual([
+      "$ must be string or null",
+    ]);
+    expect(validateJsonSchema({ type: "null" }, null)).toEqual([]);
+    expect(validateJsonSchema({ type: "boolean" }, true)).toEqual([]);
+    expect(validateJsonSchema({ type: "number" }, NaN)).toEqual([
+      "$ must be number",
+    ]);
+  });
+
+  it("should support anyOf and allOf", () => {
+    const schema: JsonSchema = {
+      anyOf: [{ type: "string" }, { type: "integer" }],
+      allOf: [{ minimum: 1 }],
+    };
+    expect(validateJsonSchema(schema, 2)).toEqual([]);
+    expect(validateJsonSchema(schema, 0)).toEqual(["$ must be >= 1"]);
+    expect(validateJsonSchema(schema, true)).toEqual([
+      "$ must match at least one schema in anyOf",
+    ]);
+  });
+});
+
+describe("validatePayload", () => {
+  it("should run JSON Schemas", () => {
+    expect(validatePayload({ type: "string" }, 1)).toEqual({
+      valid: false,
+      errors: ["$ must be string"],
+    });
+  });
+
+  it("should normalize boolean validators", () => {
+    expect(validatePayload(() => true, {})).toEqual({
+      valid: true,
+      errors: [],
+    });
+    expect(validatePayload(() => false, {})).toEqual({
+      valid: false,
+      errors: ["$ failed validation"],
+    });
+  });
+
+  it("should normalize result validators", () => {
+    expect(
+      validatePayload(() => ({ valid: false, errors: ["bad id"] }), {}),
+    ).toEqual({ valid: false, errors: ["bad id"] });
+    expect(validatePayload(() => ({ valid: false }), {})).toEqual({
+      valid: false,
+      errors: ["$ failed validation"],
+    });
+    expect(
+      validatePayload(() => ({ valid: true, errors: ["ignored"] }), {}),
+    ).toEqual({ valid: true, errors: [] });
+  });
+
+  it("should treat thrown errors as failures", () => {
+    const parse = (payload: unknown) => {
+      if (typeof payload !== "string") {
+        throw new Error("Expected string");
+      }
+      return true;
+    };
+    expect(validatePayload(parse, 1)).toEqual({
+      valid: false,
+      errors: ["Expected string"],
+    });
+    expect(
+      validatePayload(() => {
+        throw "boom";
+      }, 1),
+    ).toEqual({ valid: false, errors: ["boom"] });
+  });
+});
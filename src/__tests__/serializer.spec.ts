@@ -0,0 +1,47 @@
+import { MessageQueue } from "../core/queue";
+import { createQueueSerializer } from "../serializer";
+import * as serializer from "../serializer";
+
+describe("queue serializer", () => {
+  const createQueue = () => {
+    const queue = new MessageQueue("orders");
+    queue.subscribe("order.created", async () => {});
+    queue.subscribe("order.created", async () => {});
+    queue.subscribe(/^order\./, async () => {});
+    queue.subscribe(
+      (message) => message.type === "order.cancelled",
+      async () => {},
+    );
+    queue.subscribe(undefined, async () => {});
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    queue.publish({ type: "order.cancelled", orderId: "order-1" });
+    queue.receiveMessage("order.created");
+    return queue;
+  };
+
+  it("should print name, messages and subscriber counts", () => {
+    expect.addSnapshotSerializer(serializer);
+
+    expect(createQueue()).toMatchSnapshot();
+  });
+
+  it("should hide ids when asked", () => {
+    expect.addSnapshotSerializer(createQueueSerializer({ hideIds: true }));
+
+    expect(createQueue()).toMatchSnapshot();
+  });
+
+  it("should leave out unsubscribed handlers", () => {
+    expect.addSnapshotSerializer(serializer);
+    const queue = new MessageQueue("orders");
+    const unsubscribe = queue.subscribe("order.created", async () => {});
+    unsubscribe();
+
+    expect(queue).toMatchSnapshot();
+  });
+
+  it("should only serialize queues", () => {
+    expect(serializer.test(new MessageQueue("orders"))).toBe(true);
+    expect(serializer.test({ name: "orders" })).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import "../setup";
+import { getQueue } from "../core/registry";
+
+describe("jest-mq/setup", () => {
+  it("should register the matchers", () => {
+    const queue = getQueue("orders");
+    queue.publish({ type: "order.created" });
+
+    expect(queue).toBeInQueue({ type: "order.created" });
+  });
+
+  it("should clear registered queues after each test", () => {
+    expect(getQueue("orders")).toHaveEmptyQueue();
+  });
+});
@@ -18,6 +18,14 @@ describe("toBeInQueue", () => {
     expect(queue).toBeInQueue(message);
   });
 
+  it("should match payload fields named like the envelope metadata", () => {
+    const message = { type: "item", properties: { color: "red" } };
+    queue.publish(message, { correlationId: "request-1" });
+    expect(queue).toBeInQueue(message, {
+      properties: { correlationId: "request-1" },
+    });
+  });
+
   it("should fail if message is not in queue", () => {
     const message = { type: "test", payload: "test" };
     expect(() =>
@@ -25,3 +33,139 @@ describe("toBeInQueue", () => {
     ).toThrowErrorMatchingSnapshot();
   });
 });
+
+describe("toBeInQueue diff output", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("orders");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should diff against the closest pending message", () => {
+    queue.publish({ type: "payment.created", amount: 10 });
+    queue.publish({ type: "order.created", orderId: 1, total: 10 });
+    queue.publish({ type: "order.created", orderId: 2, total: 20 });
+
+    expect(() =>
+      expect(queue).toBeInQueue({
+        type: "order.created",
+        orderId: 2,
+        total: 25,
+      }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should note when the message was already acknowledged", () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+    queue.receiveMessage("order.created");
+
+    expect(() =>
+      expect(queue).toBeInQueue({ type: "order.created", orderId: 1 }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should note when the message is still pending", () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+
+    expect(() =>
+      expect(queue).toBeInQueue(
+        { type: "order.created", orderId: 1 },
+        { in: "received" },
+      ),
+    ).toThrow("Note: the message is pending instead (id 0).");
+  });
+
+  it("should show the match when negated", () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+
+    expect(() =>
+      expect(queue).not.toBeInQueue({ type: "order.created", orderId: 1 }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
+
+describe("toBeInQueue search option", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+    queue.publish({ type: "pending" });
+    queue.publish({ type: "acknowledged" });
+    queue.receiveMessage("acknowledged");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should search pending messages by default", () => {
+    expect(queue).toBeInQueue({ type: "pending" });
+    expect(queue).not.toBeInQueue({ type: "acknowledged" });
+  });
+
+  it("should search acknowledged messages", () => {
+    expect(queue).toBeInQueue({ type: "acknowledged" }, { in: "received" });
+    expect(queue).not.toBeInQueue({ type: "pending" }, { in: "received" });
+  });
+
+  it("should search both lists", () => {
+    expect(queue).toBeInQueue({ type: "pending" }, { in: "any" });
+    expect(queue).toBeInQueue({ type: "acknowledged" }, { in: "any" });
+    expect(queue).not.toBeInQueue({ type: "missing" }, { in: "any" });
+  });
+});
+
+describe("toBeInQueue properties option", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+    queue.publish(
+      { type: "order.created", orderId: "order-1" },
+      {
+        correlationId: "request-1",
+        headers: { "x-tenant": "acme", "x-trace": "trace-1" },
+      },
+    );
+  });
+
+  it("should match given properties and headers only", () => {
+    expect(queue).toBeInQueue(
+      { type: "order.created", orderId: "order-1" },
+      {
+        properties: {
+          correlationId: "request-1",
+          headers: { "x-tenant": "acme" },
+        },
+      },
+    );
+    expect(queue).toBeInQueue(
+      { type: "order.created", orderId: "order-1" },
+      { properties: { headers: { "x-trace": expect.any(String) } } },
+    );
+  });
+
+  it("should not match differing properties", () => {
+    expect(queue).not.toBeInQueue(
+      { type: "order.created", orderId: "order-1" },
+      { properties: { correlationId: "request-2" } },
+    );
+    expect(queue).not.toBeInQueue(
+      { type: "order.created", orderId: "order-1" },
+      { properties: { replyTo: "replies" } },
+    );
+  });
+
+  it("should explain which properties differ", () => {
+    expect(() =>
+      expect(queue).toBeInQueue(
+        { type: "order.created", orderId: "order-1" },
+        { properties: { headers: { "x-tenant": "other" } } },
+      ),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
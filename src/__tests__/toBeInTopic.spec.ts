@@ -0,0 +1,34 @@
+import "../matchers";
+import { Topic } from "../core/topic";
+
+describe("toBeInTopic", () => {
+  let topic: Topic;
+
+  beforeEach(() => {
+    topic = new Topic("orders", { partitions: 2 });
+  });
+
+  afterEach(() => {
+    topic.clear();
+  });
+
+  it("should pass if record is in topic", () => {
+    topic.send({ key: "order-123", value: { type: "test", payload: "test" } });
+    expect(topic).toBeInTopic({ type: "test", payload: "test" });
+  });
+
+  it("should filter by key and partition", () => {
+    topic.send({ key: "a", value: { type: "test" }, partition: 1 });
+
+    expect(topic).toBeInTopic({ type: "test" }, { key: "a", partition: 1 });
+    expect(topic).not.toBeInTopic({ type: "test" }, { key: "b" });
+    expect(topic).not.toBeInTopic({ type: "test" }, { partition: 0 });
+  });
+
+  it("should fail if record is not in topic", () => {
+    topic.send({ value: { type: "other" } });
+    expect(() =>
+      expect(topic).toBeInTopic({ type: "test", payload: "test" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
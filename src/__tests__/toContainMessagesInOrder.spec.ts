@@ -0,0 +1,57 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toContainMessagesInOrder", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if messages appear in order, with gaps", () => {
+    queue.publish({ type: "order.created" });
+    queue.publish({ type: "audit" });
+    queue.publish({ type: "order.paid" });
+    queue.publish({ type: "order.shipped" });
+
+    expect(queue).toContainMessagesInOrder([
+      { type: "order.created" },
+      { type: "order.shipped" },
+    ]);
+  });
+
+  it("should not pass if messages appear in another order", () => {
+    queue.publish({ type: "order.shipped" });
+    queue.publish({ type: "order.created" });
+
+    expect(queue).not.toContainMessagesInOrder([
+      { type: "order.created" },
+      { type: "order.shipped" },
+    ]);
+  });
+
+  it("should match repeated messages once each", () => {
+    queue.publish({ type: "tick" });
+
+    expect(queue).not.toContainMessagesInOrder([
+      { type: "tick" },
+      { type: "tick" },
+    ]);
+  });
+
+  it("should fail and name the first message out of order", () => {
+    queue.publish({ type: "order.shipped" });
+    queue.publish({ type: "order.created" });
+
+    expect(() =>
+      expect(queue).toContainMessagesInOrder([
+        { type: "order.created" },
+        { type: "order.shipped" },
+      ]),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,75 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toEventuallyContain", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if message is already in queue", async () => {
+    queue.publish({ type: "test", payload: "test" });
+    await expect(queue).toEventuallyContain({ type: "test", payload: "test" });
+  });
+
+  it("should see follow-up messages published by handlers", async () => {
+    queue.subscribe("order.created", async (message) => {
+      await Promise.resolve();
+      queue.publish({ type: "invoice.created", orderId: message.orderId });
+    });
+    queue.publish({ type: "order.created", orderId: 1 });
+
+    await expect(queue).toEventuallyContain(
+      { type: "invoice.created", orderId: 1 },
+      { timeout: 0 },
+    );
+  });
+
+  it("should wait for a message published later", async () => {
+    setTimeout(() => queue.publish({ type: "test", payload: "later" }), 10);
+
+    await expect(queue).toEventuallyContain(
+      { type: "test", payload: "later" },
+      { timeout: 200 },
+    );
+  });
+
+  it("should pass with .not if the message never arrives", async () => {
+    await expect(queue).not.toEventuallyContain(
+      { type: "test" },
+      { timeout: 10 },
+    );
+  });
+
+  it("should fail if message does not arrive in time", async () => {
+    queue.publish({ type: "other" });
+    await expect(
+      expect(queue).toEventuallyContain({ type: "test" }, { timeout: 10 }),
+    ).rejects.toThrowErrorMatchingSnapshot();
+  });
+
+  it("should time out while a slow handler is still running", async () => {
+    jest.useFakeTimers();
+    try {
+      queue.subscribe("test", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        queue.publish({ type: "reply" });
+      });
+      queue.publish({ type: "test" });
+
+      const assertion = expect(
+        expect(queue).toEventuallyContain({ type: "reply" }, { timeout: 50 }),
+      ).rejects.toThrow("within 50ms");
+      await jest.advanceTimersByTimeAsync(50);
+      await assertion;
+      expect(queue.getQueue().sentMessages).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toEventuallyReceive", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass once an async handler acknowledged the message", async () => {
+    queue.subscribe("test", async (message) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      queue.ack(message);
+    });
+    queue.publish({ type: "test", payload: "test" });
+
+    await expect(queue).toEventuallyReceive({ type: "test", payload: "test" });
+  });
+
+  it("should wait for an acknowledgement that happens later", async () => {
+    queue.publish({ type: "test" });
+    setTimeout(() => queue.receiveMessage("test"), 10);
+
+    await expect(queue).toEventuallyReceive({ type: "test" }, { timeout: 200 });
+  });
+
+  it("should fail if message is not acknowledged in time", async () => {
+    queue.publish({ type: "test" });
+    await expect(
+      expect(queue).toEventuallyReceive({ type: "test" }, { timeout: 10 }),
+    ).rejects.toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail with .not if the message was acknowledged", async () => {
+    queue.publish({ type: "test" });
+    queue.receiveMessage("test");
+    await expect(
+      expect(queue).not.toEventuallyReceive({ type: "test" }),
+    ).rejects.toThrow("Expected message not to be acknowledged within 1000ms");
+  });
+
+  it("should time out while a slow handler is still running", async () => {
+    jest.useFakeTimers();
+    try {
+      queue.subscribe("test", async (message) => {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        queue.ack(message);
+      });
+      queue.publish({ type: "test" });
+
+      const assertion = expect(
+        expect(queue).toEventuallyReceive({ type: "test" }, { timeout: 50 }),
+      ).rejects.toThrow("within 50ms");
+      await jest.advanceTimersByTimeAsync(50);
+      await assertion;
+      expect(queue.getQueue().receivedMessages).toHaveLength(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
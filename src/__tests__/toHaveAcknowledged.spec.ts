@@ -0,0 +1,37 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveAcknowledged", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if the message was acknowledged", () => {
+    queue.publish({ type: "test", payload: "test" });
+    const message = queue.receiveMessage("test", false);
+    queue.ack(message!);
+
+    expect(queue).toHaveAcknowledged({ type: "test", payload: "test" });
+  });
+
+  it("should not pass for pending messages", () => {
+    queue.publish({ type: "test", payload: "test" });
+
+    expect(queue).not.toHaveAcknowledged({ type: "test", payload: "test" });
+  });
+
+  it("should fail if the message was not acknowledged", () => {
+    queue.publish({ type: "other" });
+    queue.receiveMessage("other");
+
+    expect(() =>
+      expect(queue).toHaveAcknowledged({ type: "test" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
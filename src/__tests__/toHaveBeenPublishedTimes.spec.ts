@@ -0,0 +1,76 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveBeenPublishedTimes", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should count pending, acknowledged and rejected messages", () => {
+    const message = { type: "order.created", orderId: 1 };
+    queue.publish(message);
+    queue.publish(message);
+    queue.publish(message);
+    queue.receiveMessage("order.created");
+    queue.nack(queue.receiveMessage("order.created", false)!, {
+      requeue: false,
+    });
+
+    expect(queue).toHaveBeenPublishedTimes(message, 3);
+    expect(queue).not.toHaveBeenPublishedTimes(message, 1);
+  });
+
+  it("should count messages dropped to make room", () => {
+    const bounded = new MessageQueue("bounded", { maxLength: 1 });
+    bounded.publish({ type: "test", n: 1 });
+    bounded.publish({ type: "test", n: 2 });
+
+    expect(bounded).toHaveBeenPublishedTimes({ type: "test", n: 1 }, 1);
+    expect(bounded).toHaveBeenPublishedTimes({ type: "test", n: 2 }, 1);
+  });
+
+  it("should count messages held back by a blocked queue", () => {
+    const blocking = new MessageQueue("blocking", {
+      maxLength: 1,
+      overflow: "block",
+    });
+    blocking.publish({ type: "test", n: 1 });
+    blocking.publish({ type: "test", n: 2 });
+    expect(blocking).toHaveBeenPublishedTimes({ type: "test", n: 2 }, 1);
+
+    blocking.receiveMessage("test");
+    expect(blocking).toHaveBeenPublishedTimes({ type: "test", n: 1 }, 1);
+    expect(blocking).toHaveBeenPublishedTimes({ type: "test", n: 2 }, 1);
+  });
+
+  it("should count injected duplicates once", () => {
+    queue.injectFaults({ duplicateRate: 1 });
+    queue.publish({ type: "test" });
+    expect(queue.getQueue().sentMessages).toHaveLength(2);
+
+    expect(queue).toHaveBeenPublishedTimes({ type: "test" }, 1);
+
+    queue.receiveMessage("test");
+    expect(queue).toHaveBeenPublishedTimes({ type: "test" }, 1);
+  });
+
+  it("should pass for zero times", () => {
+    queue.publish({ type: "other" });
+
+    expect(queue).toHaveBeenPublishedTimes({ type: "test" }, 0);
+  });
+
+  it("should fail if the message was published another number of times", () => {
+    queue.publish({ type: "test" });
+
+    expect(() =>
+      expect(queue).toHaveBeenPublishedTimes({ type: "test" }, 2),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
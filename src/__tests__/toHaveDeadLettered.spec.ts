@@ -0,0 +1,59 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveDeadLettered", () => {
+  let deadLetters: MessageQueue;
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    deadLetters = new MessageQueue("test.dlq");
+    queue = new MessageQueue("test", { deadLetterQueue: deadLetters });
+  });
+
+  afterEach(() => {
+    queue.clear();
+    deadLetters.clear();
+  });
+
+  it("should pass if message was dead-lettered", () => {
+    const message = { type: "test", payload: "test" };
+    queue.publish(message);
+    queue.nack(queue.receiveMessage("test", false)!, { requeue: false });
+
+    expect(queue).toHaveDeadLettered(message);
+    expect(queue).toHaveDeadLettered(message, "rejected");
+    expect(queue).not.toHaveDeadLettered(message, "handler-error");
+  });
+
+  it("should pass once the dead letter was consumed", () => {
+    const message = { type: "test", payload: "test" };
+    queue.publish(message);
+    queue.nack(queue.receiveMessage("test", false)!, { requeue: false });
+    deadLetters.receiveMessage("test");
+
+    expect(queue).toHaveDeadLettered(message);
+  });
+
+  it("should only match dead letters from the received queue", () => {
+    const other = new MessageQueue("other", { deadLetterQueue: deadLetters });
+    const message = { type: "test", payload: "test" };
+    other.publish(message);
+    other.nack(other.receiveMessage("test", false)!, { requeue: false });
+
+    expect(other).toHaveDeadLettered(message);
+    expect(queue).not.toHaveDeadLettered(message);
+  });
+
+  it("should fail if message was not dead-lettered", () => {
+    queue.publish({ type: "test", payload: "test" });
+    expect(() =>
+      expect(queue).toHaveDeadLettered({ type: "test", payload: "test" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail if the queue has no dead-letter queue", () => {
+    expect(() =>
+      expect(new MessageQueue("plain")).toHaveDeadLettered({ type: "test" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,40 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveDropped", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test", { maxLength: 1 });
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if the queue dropped the message", () => {
+    queue.publish({ type: "test", payload: "first" });
+    queue.publish({ type: "test", payload: "second" });
+
+    expect(queue).toHaveDropped({ type: "test", payload: "first" });
+    expect(queue).not.toHaveDropped({ type: "test", payload: "second" });
+  });
+
+  it("should fail with the closest dropped message", () => {
+    queue.publish({ type: "test", payload: "first" });
+    queue.publish({ type: "test", payload: "second" });
+
+    expect(() =>
+      expect(queue).toHaveDropped({ type: "test", payload: "second" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail if the message was dropped but expected not to be", () => {
+    queue.publish({ type: "test", payload: "first" });
+    queue.publish({ type: "test", payload: "second" });
+
+    expect(() =>
+      expect(queue).not.toHaveDropped({ type: "test", payload: "first" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,52 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveExactlyMessages", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if the pending messages match exactly", () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+    queue.publish({ type: "order.created", orderId: 2 });
+
+    expect(queue).toHaveExactlyMessages([
+      { type: "order.created", orderId: 1 },
+      { type: "order.created", orderId: 2 },
+    ]);
+    expect(queue).not.toHaveExactlyMessages([
+      { type: "order.created", orderId: 2 },
+      { type: "order.created", orderId: 1 },
+    ]);
+  });
+
+  it("should pass for an empty queue", () => {
+    expect(queue).toHaveExactlyMessages([]);
+  });
+
+  it("should fail with a diff", () => {
+    queue.publish({ type: "order.created", orderId: 1 });
+    queue.publish({ type: "order.created", orderId: 3 });
+
+    expect(() =>
+      expect(queue).toHaveExactlyMessages([
+        { type: "order.created", orderId: 1 },
+        { type: "order.created", orderId: 2 },
+      ]),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail with .not when the messages match", () => {
+    queue.publish({ type: "test" });
+
+    expect(() =>
+      expect(queue).not.toHaveExactlyMessages([{ type: "test" }]),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
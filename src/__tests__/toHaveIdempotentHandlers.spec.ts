@@ -0,0 +1,81 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveIdempotentHandlers", () => {
+  let charges: { orderId: string }[];
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    charges = [];
+    queue = new MessageQueue("payments", {
+      atLeastOnce: { snapshot: () => charges },
+    });
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should pass if duplicates leave the state unchanged", async () => {
+    const handled = new Set<number>();
+    queue.subscribe("payment.requested", (message) => {
+      if (!handled.has(message.id)) {
+        handled.add(message.id);
+        charges.push({ orderId: message.orderId as string });
+      }
+    });
+
+    queue.publish({ type: "payment.requested", orderId: "order-1" });
+    await queue.flush();
+
+    expect(queue).toHaveIdempotentHandlers();
+  });
+
+  it("should fail if a duplicate changed the state", async () => {
+    queue.subscribe("payment.requested", (message) => {
+      charges.push({ orderId: message.orderId as string });
+    });
+
+    queue.publish({ type: "payment.requested", orderId: "order-1" });
+    await queue.flush();
+
+    expect(queue).not.toHaveIdempotentHandlers();
+    expect(() =>
+      expect(queue).toHaveIdempotentHandlers(),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail if no message was delivered twice", () => {
+    queue.publish({ type: "payment.requested", orderId: "order-1" });
+
+    expect(() =>
+      expect(queue).toHaveIdempotentHandlers(),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail without a snapshot of the handlers' state", async () => {
+    const unsnapshotted = new MessageQueue("payments", { atLeastOnce: {} });
+    unsnapshotted.subscribe("payment.requested", (message) => {
+      charges.push({ orderId: message.orderId as string });
+    });
+
+    unsnapshotted.publish({ type: "payment.requested", orderId: "order-1" });
+    await unsnapshotted.flush();
+
+    expect(charges).toHaveLength(2);
+    expect(() =>
+      expect(unsnapshotted).toHaveIdempotentHandlers(),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail .not if every duplicate left the state unchanged", async () => {
+    queue.subscribe("payment.requested", () => {});
+
+    queue.publish({ type: "payment.requested", orderId: "order-1" });
+    await queue.flush();
+
+    expect(() =>
+      expect(queue).not.toHaveIdempotentHandlers(),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,47 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+
+describe("toHaveMessageCount", () => {
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    queue = new MessageQueue("test");
+  });
+
+  afterEach(() => {
+    queue.clear();
+  });
+
+  it("should count pending messages", () => {
+    queue.publish({ type: "order.created" });
+    queue.publish({ type: "order.cancelled" });
+    queue.publish({ type: "payment.created" });
+    queue.receiveMessage("payment.created");
+
+    expect(queue).toHaveMessageCount(2);
+    expect(queue).not.toHaveMessageCount(3);
+  });
+
+  it("should count pending messages of a type", () => {
+    queue.publish({ type: "order.created" });
+    queue.publish({ type: "order.created" });
+    queue.publish({ type: "order.cancelled" });
+
+    expect(queue).toHaveMessageCount(2, "order.created");
+    expect(queue).toHaveMessageCount(3, "order.*");
+    expect(queue).toHaveMessageCount(0, "payment.created");
+  });
+
+  it("should fail if the count differs", () => {
+    queue.publish({ type: "test", payload: "test" });
+    expect(() =>
+      expect(queue).toHaveMessageCount(2, "test"),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should reject invalid counts", () => {
+    expect(() => expect(queue).toHaveMessageCount(-1)).toThrow(
+      "expected value must be a non-negative integer",
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+import type { JsonSchema } from "../core/schema";
+
+describe("toMatchMessageSchema", () => {
+  const orderCreated: JsonSchema = {
+    type: "object",
+    required: ["orderId"],
+    properties: { orderId: { type: "string" } },
+  };
+
+  it("should check messages against the queue's schemas", () => {
+    const queue = new MessageQueue("orders", {
+      schemas: { "order.created": orderCreated },
+      onInvalidMessage: "record",
+    });
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    expect(queue).toMatchMessageSchema();
+
+    queue.publish({ type: "order.created", orderId: 2 });
+    expect(queue).not.toMatchMessageSchema();
+  });
+
+  it("should check acknowledged messages too", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created" });
+    queue.receiveMessage();
+
+    expect(queue).not.toMatchMessageSchema({ "order.created": orderCreated });
+  });
+
+  it("should check messages against explicit schemas", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: "order-1" });
+    queue.publish({ type: "order.cancelled", reason: 1 });
+
+    expect(queue).toMatchMessageSchema({ "order.created": orderCreated });
+  });
+
+  it("should fail listing every violation", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: 1 });
+    queue.publish({ type: "order.created" });
+
+    expect(() =>
+      expect(queue).toMatchMessageSchema({ "order.created": orderCreated }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail with .not when every message is valid", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: "order-1" });
+
+    expect(() =>
+      expect(queue).not.toMatchMessageSchema({ "order.created": orderCreated }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,38 @@
+import "../matchers";
+import { ContractRecorder } from "../core/contract";
+import { MessageQueue } from "../core/queue";
+
+describe("toSatisfyContract", () => {
+  const producer = new MessageQueue("orders");
+  const recorder = new ContractRecorder();
+  recorder.record(producer);
+  producer.publish({ type: "order.created", orderId: "order-1", total: 10 });
+  const contract = recorder.getContract();
+
+  it("should pass when every message matches the recorded shapes", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: "order-2", total: 5 });
+    queue.receiveMessage();
+
+    expect(queue).toSatisfyContract(contract);
+  });
+
+  it("should fail on changed payloads and unknown types", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: 2 });
+    queue.publish({ type: "order.refunded", orderId: "order-1" });
+
+    expect(() =>
+      expect(queue).toSatisfyContract(contract),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should fail with .not when every message matches", () => {
+    const queue = new MessageQueue("orders");
+    queue.publish({ type: "order.created", orderId: "order-2", total: 5 });
+
+    expect(() =>
+      expect(queue).not.toSatisfyContract(contract),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -0,0 +1,291 @@
+import { Topic } from "../core/topic";
+
+describe("Topic", () => {
+  let topic: Topic;
+
+  beforeEach(() => {
+    topic = new Topic("orders", { partitions: 3 });
+  });
+
+  afterEach(() => {
+    topic.clear();
+  });
+
+  describe("constructor", () => {
+    it("should default to a single partition", () => {
+      expect(new Topic("orders").getTopic().partitions).toEqual([[]]);
+    });
+
+    it("should throw an error if no name is provided", () => {
+      expect(() => new Topic("")).toThrow("Topic name is required");
+    });
+
+    it("should throw an error for invalid partition counts", () => {
+      expect(() => new Topic("orders", { partitions: 0 })).toThrow(
+        "Partition count must be a positive integer",
+      );
+    });
+  });
+
+  describe("send", () => {
+    it("should assign per-partition offsets", () => {
+      expect(topic.send({ value: { id: 1 }, partition: 1 })).toEqual({
+        partition: 1,
+        offset: 0,
+      });
+      expect(topic.send({ value: { id: 2 }, partition: 1 })).toEqual({
+        partition: 1,
+        offset: 1,
+      });
+      expect(topic.endOffsets()).toEqual([0, 2, 0]);
+    });
+
+    it("should partition keyed records like kafkajs", () => {
+      const partitions = ["a", "ab", "abc", "order-123", "customer-42"].map(
+        (key) => topic.send({ key, value: {} }).partition,
+      );
+      expect(partitions).toEqual([1, 2, 0, 1, 0]);
+    });
+
+    it("should keep records with the same key in order on one partition", () => {
+      topic.send({ key: "order-123", value: { step: 1 } });
+      topic.send({ key: "order-123", value: { step: 2 } });
+
+      expect(topic.getTopic().partitions[1]).toEqual([
+        {
+          topic: "orders",
+          partition: 1,
+          offset: 0,
+          key: "order-123",
+          value: { step: 1 },
+        },
+        {
+          topic: "orders",
+          partition: 1,
+          offset: 1,
+          key: "order-123",
+          value: { step: 2 },
+        },
+      ]);
+    });
+
+    it("should round-robin keyless records", () => {
+      const partitions = [1, 2, 3, 4].map(
+        () => topic.send({ value: {} }).partition,
+      );
+      expect(partitions).toEqual([0, 1, 2, 0]);
+    });
+
+    it("should throw for partitions that do not exist", () => {
+      expect(() => topic.send({ value: {}, partition: 3 })).toThrow(
+        "Partition 3 does not exist",
+      );
+    });
+
+    it("should keep headers and timestamps when given", () => {
+      topic.send({
+        value: {},
+        partition: 0,
+        headers: { "x-tenant": "acme" },
+        timestamp: 1700000000000,
+      });
+
+      expect(topic.getTopic().partitions[0][0]).toMatchObject({
+        headers: { "x-tenant": "acme" },
+        timestamp: 1700000000000,
+      });
+    });
+
+    it("should notify send listeners", () => {
+      const listener = jest.fn();
+      const unsubscribe = topic.on("send", listener);
+
+      topic.send({ value: { step: 1 }, partition: 0 });
+      unsubscribe();
+      topic.send({ value: { step: 2 }, partition: 0 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ offset: 0, value: { step: 1 } }),
+      );
+    });
+  });
+
+  describe("consumer groups", () => {
+    it("should return the same group for the same id", () => {
+      expect(topic.consumerGroup("billing")).toBe(
+        topic.consumerGroup("billing"),
+      );
+    });
+
+    it("should throw an error if no group id is provided", () => {
+      expect(() => topic.consumerGroup("")).toThrow(
+        "Consumer group id is required",
+      );
+    });
+
+    it("should split partitions among members", () => {
+      const group = topic.consumerGroup("billing");
+      const first = group.join("first");
+      const second = group.join("second");
+
+      expect(first.assignment()).toEqual([0, 2]);
+      expect(second.assignment()).toEqual([1]);
+      expect(group.getGroup()).toEqual({
+        groupId: "billing",
+        generation: 2,
+        members: [
+          { memberId: "first", partitions: [0, 2] },
+          { memberId: "second", partitions: [1] },
+        ],
+        committed: [0, 0, 0],
+      });
+    });
+
+    it("should generate member ids", () => {
+      const group = topic.consumerGroup("billing");
+      expect(group.join().memberId).toBe("billing-1");
+      expect(group.join().memberId).toBe("billing-2");
+    });
+
+    it("should reject duplicate member ids", () => {
+      const group = topic.consumerGroup("billing");
+      group.join("first");
+      expect(() => group.join("first")).toThrow(
+        "Member first already joined billing",
+      );
+    });
+
+    it("should deliver each record to one member of a group", () => {
+      [0, 1, 2].forEach((partition) =>
+        topic.send({ value: { partition }, partition }),
+      );
+      const group = topic.consumerGroup("billing");
+      const first = group.join();
+      const second = group.join();
+
+      expect(first.poll().map((record) => record.value)).toEqual([
+        { partition: 0 },
+        { partition: 2 },
+      ]);
+      expect(second.poll().map((record) => record.value)).toEqual([
+        { partition: 1 },
+      ]);
+      expect(first.poll()).toEqual([]);
+    });
+
+    it("should deliver every record to each group", () => {
+      topic.send({ value: { id: 1 } });
+
+      expect(topic.consumerGroup("billing").join().poll()).toHaveLength(1);
+      expect(topic.consumerGroup("audit").join().poll()).toHaveLength(1);
+    });
+
+    it("should skip existing records when not reading from the beginning", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      const consumer = topic
+        .consumerGroup("billing", { fromBeginning: false })
+        .join();
+      topic.send({ value: { id: 2 }, partition: 0 });
+
+      expect(consumer.poll().map((record) => record.value)).toEqual([
+        { id: 2 },
+      ]);
+    });
+
+    it("should limit polled records", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      topic.send({ value: { id: 2 }, partition: 0 });
+      topic.send({ value: { id: 3 }, partition: 1 });
+      const consumer = topic.consumerGroup("billing").join();
+
+      expect(consumer.poll(2).map((record) => record.offset)).toEqual([0, 1]);
+      expect(consumer.poll(2).map((record) => record.value)).toEqual([
+        { id: 3 },
+      ]);
+    });
+
+    it("should return nothing once a member left", () => {
+      topic.send({ value: { id: 1 } });
+      const consumer = topic.consumerGroup("billing").join();
+      consumer.leave();
+
+      expect(consumer.assignment()).toEqual([]);
+      expect(consumer.poll()).toEqual([]);
+    });
+  });
+
+  describe("offsets", () => {
+    it("should commit current positions", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      topic.send({ value: { id: 2 }, partition: 0 });
+      const group = topic.consumerGroup("billing");
+      const consumer = group.join();
+
+      consumer.poll();
+      consumer.commit();
+
+      expect(group.getGroup().committed).toEqual([2, 0, 0]);
+      expect(group.lag()).toEqual([0, 0, 0]);
+    });
+
+    it("should commit explicit offsets", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      topic.send({ value: { id: 2 }, partition: 0 });
+      const group = topic.consumerGroup("billing");
+      const consumer = group.join();
+
+      consumer.commit([{ partition: 0, offset: 1 }]);
+
+      expect(group.lag()).toEqual([1, 0, 0]);
+    });
+
+    it("should rewind uncommitted progress on rebalance", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      topic.send({ value: { id: 2 }, partition: 0 });
+      const group = topic.consumerGroup("billing");
+      const first = group.join();
+
+      first.poll(1);
+      first.commit();
+      first.poll();
+      group.join();
+
+      expect(first.position(0)).toBe(1);
+      expect(first.poll().map((record) => record.value)).toEqual([{ id: 2 }]);
+    });
+
+    it("should seek to an offset", () => {
+      topic.send({ value: { id: 1 }, partition: 0 });
+      topic.send({ value: { id: 2 }, partition: 0 });
+      const consumer = topic.consumerGroup("billing").join();
+
+      consumer.poll();
+      consumer.seek(0, 1);
+
+      expect(consumer.poll().map((record) => record.value)).toEqual([
+        { id: 2 },
+      ]);
+    });
+
+    it("should reject seeks out of range", () => {
+      const consumer = topic.consumerGroup("billing").join();
+      expect(() => consumer.seek(0, 1)).toThrow(
+        "Offset 1 is out of range for partition 0",
+      );
+    });
+
+    it("should reject seeks and commits on unassigned partitions", () => {
+      const group = topic.consumerGroup("billing");
+      group.join("first");
+      const second = group.join("second");
+
+      expect(() => second.seek(0, 0)).toThrow(
+        "Partition 0 is not assigned to second",
+      );
+      expect(() => second.commit([{ partition: 0, offset: 0 }])).toThrow(
+        "Partition 0 is not assigned to second",
+      );
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import "../matchers";
+import { MessageQueue } from "../core/queue";
+import { MessageTracer } from "../core/trace";
+
+describe("MessageTracer", () => {
+  let orders: MessageQueue;
+  let payments: MessageQueue;
+  let tracer: MessageTracer;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    orders = new MessageQueue("orders");
+    payments = new MessageQueue("payments");
+    tracer = new MessageTracer();
+    tracer.record(orders);
+    tracer.record(payments);
+
+    orders.subscribe(
+      "order.created",
+      async (message) => {
+        payments.publish({ type: "payment.requested", orderId: 1 });
+        orders.ack(message);
+      },
+      { consumerTag: "billing" },
+    );
+    payments.subscribe(
+      "payment.requested",
+      () => {
+        throw new Error("card declined");
+      },
+      { consumerTag: "gateway" },
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should link published messages to the handler that published them", async () => {
+    orders.publish({ type: "order.created" });
+    await orders.settle();
+    await payments.settle();
+
+    expect(tracer.getEvents()).toEqual([
+      expect.objectContaining({ seq: 1, type: "publish", queue: "orders" }),
+      expect.objectContaining({
+        seq: 2,
+        type: "deliver",
+        consumerTag: "billing",
+      }),
+      expect.objectContaining({ seq: 3, type: "handler-start" }),
+      expect.objectContaining({
+        seq: 4,
+        type: "publish",
+        queue: "payments",
+        messageType: "payment.requested",
+        cause: 3,
+      }),
+      expect.objectContaining({
+        seq: 5,
+        type: "ack",
+        queue: "orders",
+        cause: 3,
+      }),
+      expect.objectContaining({
+        seq: 6,
+        type: "deliver",
+        queue: "payments",
+        consumerTag: "gateway",
+      }),
+      expect.objectContaining({ seq: 7, type: "handler-start" }),
+      expect.objectContaining({
+        seq: 8,
+        type: "handler-error",
+        consumerTag: "gateway",
+        error: "card declined",
+      }),
+      expect.objectContaining({
+        seq: 9,
+        type: "handler-end",
+        consumerTag: "billing",
+      }),
+    ]);
+    expect(tracer.getEvents()[0]).not.toHaveProperty("cause");
+    expect(tracer.getEvents()[5]).not.toHaveProperty("cause");
+  });
+
+  it("should link messages received inside a handler", async () => {
+    const audit = new MessageQueue("audit");
+    tracer.record(audit);
+    audit.publish({ type: "audit.entry" });
+    orders.subscribe("order.cancelled", () => {
+      audit.receiveMessage();
+    });
+
+    orders.publish({ type: "order.cancelled" });
+    await orders.settle();
+
+    const [start] = tracer
+      .getEvents()
+      .filter((event) => event.type === "handler-start");
+    expect(
+      tracer.getEvents().filter((event) => event.queue === "audit"),
+    ).toEqual([
+      expect.objectContaining({ type: "publish" }),
+      expect.objectContaining({ type: "deliver", cause: start.seq }),
+      expect.objectContaining({ type: "ack", cause: start.seq }),
+    ]);
+  });
+
+  it("should export the trace as a JSON timeline", async () => {
+    orders.publish({ type: "order.cancelled" });
+
+    expect(JSON.parse(JSON.stringify(tracer))).toEqual([
+      {
+        seq: 1,
+        type: "publish",
+        time: 0,
+        queue: "orders",
+        messageId: 0,
+        messageType: "order.cancelled",
+      },
+    ]);
+  });
+
+  it("should export the trace as a Mermaid sequence diagram", async () => {
+    orders.publish({ type: "order.created" });
+    await orders.settle();
+    await payments.settle();
+
+    expect(tracer.toMermaid()).toMatchSnapshot();
+  });
+
+  it("should print the trace in matcher failures", async () => {
+    orders.publish({ type: "order.created" });
+    await orders.settle();
+    await payments.settle();
+
+    expect(() =>
+      expect(payments).toHaveAcknowledged({ type: "payment.requested" }),
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it("should print the trace in failures of async matchers", async () => {
+    const assertion = expect(
+      expect(orders).toEventuallyContain(
+        { type: "order.shipped" },
+        { timeout: 50 },
+      ),
+    ).rejects.toThrow(
+      "Message trace:\n  #1 publish orders#0 (order.cancelled)",
+    );
+    orders.publish({ type: "order.cancelled" });
+    await jest.advanceTimersByTimeAsync(50);
+    await assertion;
+  });
+
+  it("should stop tracing", () => {
+    const audit = new MessageQueue("audit");
+    const stop = tracer.record(audit);
+    stop();
+    audit.publish({ type: "audit.entry" });
+
+    expect(tracer.getEvents()).toEqual([]);
+    expect(() => expect(audit).toHaveEmptyQueue()).toThrow(
+      expect.objectContaining({
+        message: expect.not.stringContaining("Message trace"),
+      }),
+    );
+  });
+
+  it("should clear recorded events", () => {
+    orders.publish({ type: "order.cancelled" });
+    tracer.clear();
+
+    expect(tracer.getEvents()).toEqual([]);
+    expect(tracer.format()).toBe("Message trace: no events recorded.");
+  });
+});
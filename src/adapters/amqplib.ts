@@ -0,0 +1,541 @@
+import { Exchange, type ExchangeType } from "../core/exchange";
+import {
+  MessageQueue,
+  getMetadata,
+  toPayload,
+  type Message,
+  type OverflowPolicy,
+  type PublishOptions,
+} from "../core/queue";
+import { jsonCodec, toBuffer, type MessageCodec } from "./codec";
+
+/** The amqplib message properties carried on the envelope. */
+export type AmqpMessageProperties = {
+  contentType?: string;
+  headers?: Record<string, unknown>;
+  correlationId?: string;
+  replyTo?: string;
+  timestamp?: number;
+  priority?: number;
+  /** Per-message TTL in milliseconds, as a string like amqplib sends it. */
+  expiration?: string | number;
+};
+export type AmqpPublishOptions = AmqpMessageProperties & {
+  [option: string]: unknown;
+};
+/** Structurally compatible with amqplib's `ConsumeMessage`. */
+export type AmqpMessage = {
+  content: Buffer;
+  fields: {
+    deliveryTag: number;
+    redelivered: boolean;
+    exchange: string;
+    routingKey: string;
+    consumerTag?: string;
+    messageCount?: number;
+  };
+  properties: AmqpMessageProperties;
+};
+/** The `assertQueue` options that shape a new queue. */
+export type AmqpQueueOptions = {
+  maxLength?: number;
+  maxPriority?: number;
+  /**
+   * Queue arguments. `x-max-length`, `x-max-length-bytes`, `x-overflow` and
+   * `x-max-priority` are applied; other arguments are ignored.
+   */
+  arguments?: Record<string, unknown>;
+  [option: string]: unknown;
+};
+export type AmqpChannelOptions = {
+  /** Queues the channel can reach by name, besides those it asserts. */
+  queues?: MessageQueue[];
+  /** Exchanges the channel can reach by name, besides those it asserts. */
+  exchanges?: Exchange[];
+  /** Converts message content. Defaults to JSON. */
+  codec?: MessageCodec;
+};
+
+type UnackedDelivery = {
+  queue: MessageQueue;
+  message: Message;
+  /** Frees the consumer's prefetch slot. */
+  release: () => void;
+};
+
+type Consumer = {
+  consumerTag: string;
+  queue: MessageQueue;
+  onMessage: (message: AmqpMessage | null) => unknown;
+  noAck: boolean;
+  prefetch: number | undefined;
+  /** Deliveries assigned to the consumer and not acked or nacked yet. */
+  unacked: number;
+  unsubscribe: () => void;
+};
+
+/**
+ * Presents queues and exchanges through the surface of an amqplib `Channel`,
+ * so code written against amqplib runs unchanged against test doubles.
+ * Deliveries are dispatched through `MessageQueue.subscribe` and
+ * `MessageQueue.dispatchTo`, so `flush` waits for consumers and surfaces
+ * their errors.
+ */
+export class AmqpChannel {
+  private queues: Map<string, MessageQueue> = new Map();
+  private exchanges: Map<string, Exchange> = new Map();
+  private bindings: Map<string, () => void> = new Map();
+  private consumers: Map<string, Consumer> = new Map();
+  private unacked: Map<number, UnackedDelivery> = new Map();
+  // The consumer each dispatched message went to, none while all were full.
+  private assignments: WeakMap<Message, Consumer | undefined> = new WeakMap();
+  // Ids of pending messages waiting for a free prefetch slot, per queue.
+  private waiting: Map<MessageQueue, Set<number>> = new Map();
+  private roundRobinCounts: Map<MessageQueue, number> = new Map();
+  private codec: MessageCodec;
+  private prefetchCount: number | undefined;
+  private deliveryTagCount = 0;
+  private consumerCount = 0;
+  private generatedQueueCount = 0;
+
+  constructor({
+    queues = [],
+    exchanges = [],
+    codec = jsonCodec,
+  }: AmqpChannelOptions = {}) {
+    queues.forEach((queue) => this.queues.set(queue.name, queue));
+    exchanges.forEach((exchange) =>
+      this.exchanges.set(exchange.name, exchange),
+    );
+    this.codec = codec;
+  }
+
+  /** Returns the queue with the given name, if the channel knows it. */
+  queue(name: string): MessageQueue | undefined {
+    return this.queues.get(name);
+  }
+
+  private getMessageQueue(name: string): MessageQueue {
+    const queue = this.queues.get(name);
+    if (!queue) {
+      throw new Error(`Queue "${name}" does not exist`);
+    }
+    return queue;
+  }
+
+  private queueInfo(queue: MessageQueue) {
+    const { sentMessages, handlers } = queue.getQueue();
+    return {
+      queue: queue.name,
+      messageCount: sentMessages.length,
+      consumerCount: Array.from(handlers.values()).flat().length,
+    };
+  }
+
+  /**
+   * Creates the queue unless it exists. An empty name generates one. Length
+   * limits and priorities only apply when the queue is created.
+   */
+  async assertQueue(
+    name = "",
+    { maxLength, maxPriority, arguments: args = {} }: AmqpQueueOptions = {},
+  ) {
+    const queueName = name || `amq.gen-${++this.generatedQueueCount}`;
+    if (!this.queues.has(queueName)) {
+      const overflow = args["x-overflow"] as string | undefined;
+      this.queues.set(
+        queueName,
+        new MessageQueue(queueName, {
+          maxLength: maxLength ?? (args["x-max-length"] as number | undefined),
+          maxBytes: args["x-max-length-bytes"] as number | undefined,
+          // Without dead-letter exchanges both reject policies behave alike.
+          overflow:
+            overflow === "reject-publish-dlx"
+              ? "reject-publish"
+              : (overflow as OverflowPolicy | undefined),
+          maxPriority:
+            maxPriority ?? (args["x-max-priority"] as number | undefined),
+        }),
+      );
+    }
+    return this.queueInfo(this.queues.get(queueName)!);
+  }
+
+  async checkQueue(name: string) {
+    return this.queueInfo(this.getMessageQueue(name));
+  }
+
+  /** Creates the exchange unless it exists. */
+  async assertExchange(
+    name: string,
+    type: ExchangeType = "direct",
+    _options?: unknown,
+  ) {
+    if (!this.exchanges.has(name)) {
+      this.exchanges.set(name, new Exchange(name, type));
+    }
+    return { exchange: name };
+  }
+
+  async bindQueue(queueName: string, source: string, pattern: string) {
+    const key = JSON.stringify([queueName, source, pattern]);
+    if (!this.bindings.has(key)) {
+      const exchange = this.exchanges.get(source);
+      if (!exchange) {
+        throw new Error(`Exchange "${source}" does not exist`);
+      }
+      this.bindings.set(
+        key,
+        exchange.bind(this.getMessageQueue(queueName), pattern),
+      );
+    }
+    return {};
+  }
+
+  async unbindQueue(queueName: string, source: string, pattern: string) {
+    const key = JSON.stringify([queueName, source, pattern]);
+    this.bindings.get(key)?.();
+    this.bindings.delete(key);
+    return {};
+  }
+
+  /**
+   * Publishes to an exchange; the default exchange (`""`) routes to the queue
+   * named by the routing key.
+   *
+   * @returns `false` while a target queue holds messages back under the
+   * `block` overflow policy, asking the publisher to back off as amqplib does
+   * with a full write buffer.
+   */
+  publish(
+    exchangeName: string,
+    routingKey: string,
+    content: Buffer | string,
+    options: AmqpPublishOptions = {},
+  ): boolean {
+    if (exchangeName === "") {
+      return this.sendToQueue(routingKey, content, options);
+    }
+    const exchange = this.exchanges.get(exchangeName);
+    if (!exchange) {
+      throw new Error(`Exchange "${exchangeName}" does not exist`);
+    }
+    const queueNames = exchange.publish(
+      this.codec.decode(toBuffer(content)),
+      routingKey,
+      this.toPublishOptions(options),
+    );
+    return queueNames.every(
+      (queueName) =>
+        !this.queues.get(queueName)?.getQueue().blockedMessages.length,
+    );
+  }
+
+  sendToQueue(
+    queueName: string,
+    content: Buffer | string,
+    options: AmqpPublishOptions = {},
+  ): boolean {
+    const queue = this.getMessageQueue(queueName);
+    queue.publish(this.codec.decode(toBuffer(content)), {
+      ...this.toPublishOptions(options),
+      exchange: "",
+      routingKey: queueName,
+    });
+    return queue.getQueue().blockedMessages.length === 0;
+  }
+
+  private toPublishOptions({
+    headers,
+    correlationId,
+    replyTo,
+    contentType,
+    timestamp,
+    priority,
+    expiration,
+  }: AmqpPublishOptions): PublishOptions {
+    return {
+      headers,
+      correlationId,
+      replyTo,
+      contentType,
+      timestamp,
+      priority,
+      ttl: expiration === undefined ? undefined : Number(expiration),
+    };
+  }
+
+  /**
+   * Limits unacknowledged deliveries per consumer started afterwards. A
+   * consumer at the limit receives its next message once it acks or nacks.
+   * `0` removes the limit.
+   */
+  async prefetch(count: number, _global?: boolean) {
+    this.prefetchCount = count > 0 ? count : undefined;
+    return {};
+  }
+
+  /**
+   * Starts delivering the pending messages of the queue and those published
+   * from now on. Consumers of a queue compete: each message goes to one of
+   * them, in turn, skipping those at their prefetch limit. With `noAck`,
+   * deliveries are acknowledged right away.
+   */
+  async consume(
+    queueName: string,
+    onMessage: (message: AmqpMessage | null) => unknown,
+    {
+      noAck = false,
+      consumerTag = `amq.ctag-${++this.consumerCount}`,
+    }: { noAck?: boolean; consumerTag?: string } = {},
+  ) {
+    const queue = this.getMessageQueue(queueName);
+    const consumer: Consumer = {
+      consumerTag,
+      queue,
+      onMessage,
+      noAck,
+      prefetch: noAck ? undefined : this.prefetchCount,
+      unacked: 0,
+      unsubscribe: () => {},
+    };
+    consumer.unsubscribe = queue.subscribe(
+      (message) => this.assignedConsumer(queue, message) === consumer,
+      (message) => this.deliver(consumer, message),
+      { consumerTag },
+    );
+    this.consumers.set(consumerTag, consumer);
+    // Messages nobody could take so far are assigned again.
+    const waiting = this.waitingFor(queue);
+    for (const message of queue.getQueue().sentMessages) {
+      if (this.isUnacked(queue, message) || this.assignments.get(message)) {
+        continue;
+      }
+      waiting.delete(message.id);
+      this.assignments.delete(message);
+      const assigned = this.assignedConsumer(queue, message);
+      if (assigned) {
+        void queue.dispatchTo(message, assigned.consumerTag);
+      }
+    }
+    return { consumerTag };
+  }
+
+  async cancel(consumerTag: string) {
+    this.consumers.get(consumerTag)?.unsubscribe();
+    this.consumers.delete(consumerTag);
+    return {};
+  }
+
+  private waitingFor(queue: MessageQueue): Set<number> {
+    if (!this.waiting.has(queue)) {
+      this.waiting.set(queue, new Set());
+    }
+    return this.waiting.get(queue)!;
+  }
+
+  /**
+   * Tests whether a pending message of the queue is neither unacked, assigned
+   * to a consumer nor waiting for one on this channel.
+   */
+  private isAvailable(queue: MessageQueue): (message: Message) => boolean {
+    return (message) =>
+      !this.isUnacked(queue, message) &&
+      !this.assignments.has(message) &&
+      !this.waitingFor(queue).has(message.id);
+  }
+
+  private isUnacked(queue: MessageQueue, message: Message): boolean {
+    return Array.from(this.unacked.values()).some(
+      (delivery) =>
+        delivery.queue === queue && delivery.message.id === message.id,
+    );
+  }
+
+  /**
+   * Returns the consumer the message is assigned to, assigning it on first
+   * call to the next consumer of the queue with a free prefetch slot. While
+   * every consumer is full, the message waits for a slot.
+   */
+  private assignedConsumer(
+    queue: MessageQueue,
+    message: Message,
+  ): Consumer | undefined {
+    if (!this.assignments.has(message)) {
+      const consumers = Array.from(this.consumers.values()).filter(
+        (consumer) => consumer.queue === queue,
+      );
+      const start = this.roundRobinCounts.get(queue) ?? 0;
+      const offset = consumers.findIndex((_, index) => {
+        const consumer = consumers[(start + index) % consumers.length];
+        return (
+          consumer.prefetch === undefined ||
+          consumer.unacked < consumer.prefetch
+        );
+      });
+      if (offset === -1) {
+        this.assignments.set(message, undefined);
+        this.waitingFor(queue).add(message.id);
+      } else {
+        this.assign(consumers[(start + offset) % consumers.length], message);
+        this.roundRobinCounts.set(queue, start + offset + 1);
+      }
+    }
+    return this.assignments.get(message);
+  }
+
+  private assign(consumer: Consumer, message: Message): void {
+    consumer.unacked++;
+    this.assignments.set(message, consumer);
+  }
+
+  private async deliver(consumer: Consumer, message: Message): Promise<void> {
+    const delivery = this.toAmqpMessage(
+      consumer.queue,
+      message,
+      () => this.release(consumer),
+      consumer.noAck,
+    );
+    delivery.fields.consumerTag = consumer.consumerTag;
+    await consumer.onMessage(delivery);
+  }
+
+  /**
+   * Frees a prefetch slot and hands the consumer the first waiting message,
+   * in queue order, that is still pending.
+   */
+  private release(consumer: Consumer): void {
+    consumer.unacked--;
+    if (this.consumers.get(consumer.consumerTag) !== consumer) {
+      return;
+    }
+    const waiting = this.waitingFor(consumer.queue);
+    const next = consumer.queue
+      .getQueue()
+      .sentMessages.find((message) => waiting.has(message.id));
+    if (next) {
+      waiting.delete(next.id);
+      this.assign(consumer, next);
+      void consumer.queue.dispatchTo(next, consumer.consumerTag);
+    }
+  }
+
+  /** Fetches the next pending message not yet delivered on this channel. */
+  async get(
+    queueName: string,
+    { noAck = false }: { noAck?: boolean } = {},
+  ): Promise<AmqpMessage | false> {
+    const queue = this.getMessageQueue(queueName);
+    const message = queue.receiveMessage(this.isAvailable(queue), noAck);
+    if (!message) {
+      return false;
+    }
+    const delivery = this.toAmqpMessage(queue, message, () => {}, noAck);
+    delivery.fields.messageCount = queue
+      .getQueue()
+      .sentMessages.filter(this.isAvailable(queue)).length;
+    return delivery;
+  }
+
+  private toAmqpMessage(
+    queue: MessageQueue,
+    message: Message,
+    release: () => void,
+    noAck: boolean,
+  ): AmqpMessage {
+    const deliveryTag = ++this.deliveryTagCount;
+    if (noAck) {
+      queue.ack(message);
+      release();
+    } else {
+      this.unacked.set(deliveryTag, { queue, message, release });
+    }
+    const metadata = getMetadata(message);
+    const {
+      headers,
+      correlationId,
+      replyTo,
+      contentType,
+      timestamp,
+      priority,
+    } = metadata.properties ?? {};
+    const properties: AmqpMessageProperties = {
+      headers,
+      correlationId,
+      replyTo,
+      contentType,
+      timestamp,
+      priority,
+    };
+    return {
+      content: this.codec.encode(toPayload(message)),
+      fields: {
+        deliveryTag,
+        redelivered: metadata.redelivered ?? false,
+        // Messages published to the queue directly went through neither.
+        exchange: metadata.exchange ?? "",
+        routingKey: metadata.routingKey ?? queue.name,
+      },
+      properties,
+    };
+  }
+
+  private deliveryTagsUpTo(message: AmqpMessage, allUpTo: boolean): number[] {
+    const { deliveryTag } = message.fields;
+    if (!this.unacked.has(deliveryTag)) {
+      throw new Error(`Unknown delivery tag: ${deliveryTag}`);
+    }
+    return allUpTo
+      ? Array.from(this.unacked.keys()).filter((tag) => tag <= deliveryTag)
+      : [deliveryTag];
+  }
+
+  private settle(
+    deliveryTags: number[],
+    outcome: { requeue: boolean } | "ack",
+  ): void {
+    for (const tag of deliveryTags) {
+      const { queue, message, release } = this.unacked.get(tag)!;
+      this.unacked.delete(tag);
+      if (outcome === "ack") {
+        queue.ack(message);
+      } else {
+        queue.nack(message, outcome);
+      }
+      release();
+    }
+  }
+
+  ack(message: AmqpMessage, allUpTo = false): void {
+    this.settle(this.deliveryTagsUpTo(message, allUpTo), "ack");
+  }
+
+  nack(message: AmqpMessage, allUpTo = false, requeue = true): void {
+    this.settle(this.deliveryTagsUpTo(message, allUpTo), { requeue });
+  }
+
+  reject(message: AmqpMessage, requeue = true): void {
+    this.nack(message, false, requeue);
+  }
+
+  ackAll(): void {
+    this.settle(Array.from(this.unacked.keys()), "ack");
+  }
+
+  nackAll(requeue = true): void {
+    this.settle(Array.from(this.unacked.keys()), { requeue });
+  }
+
+  /** Accepts channel event listeners; the test double never emits events. */
+  on(_event: string, _listener: (...args: unknown[]) => void): this {
+    return this;
+  }
+
+  /** Cancels all consumers and requeues unacknowledged deliveries. */
+  async close(): Promise<void> {
+    for (const consumerTag of Array.from(this.consumers.keys())) {
+      await this.cancel(consumerTag);
+    }
+    this.nackAll(true);
+  }
+}
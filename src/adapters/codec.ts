@@ -0,0 +1,31 @@
+import type { MessagePayload } from "../core/queue";
+
+/**
+ * Converts between the binary content client libraries send and the payloads
+ * queues and topics store.
+ */
+export type MessageCodec = {
+  encode: (payload: MessagePayload) => Buffer;
+  decode: (content: Buffer) => MessagePayload;
+};
+
+/** Encodes payloads as UTF-8 JSON. */
+export const jsonCodec: MessageCodec = {
+  encode: (payload) => Buffer.from(JSON.stringify(payload)),
+  decode: (content) => {
+    const payload = JSON.parse(content.toString("utf8"));
+    if (
+      payload === null ||
+      typeof payload !== "object" ||
+      Array.isArray(payload)
+    ) {
+      throw new Error(
+        "Message content must be a JSON object, pass a codec for other formats",
+      );
+    }
+    return payload;
+  },
+};
+
+export const toBuffer = (content: Buffer | string): Buffer =>
+  typeof content === "string" ? Buffer.from(content) : content;
@@ -0,0 +1,370 @@
+import { MessageQueue, type MessagePayload } from "../core/queue";
+import { Topic, type TopicConsumer, type TopicRecord } from "../core/topic";
+import { jsonCodec, toBuffer, type MessageCodec } from "./codec";
+
+/** Structurally compatible with a kafkajs producer `Message`. */
+export type KafkaMessage = {
+  key?: Buffer | string | null;
+  value: Buffer | string;
+  partition?: number;
+  headers?: Record<string, unknown>;
+  /** Milliseconds since the epoch, as a string. */
+  timestamp?: string;
+};
+export type KafkaProducerRecord = {
+  topic: string;
+  messages: KafkaMessage[];
+  [option: string]: unknown;
+};
+export type KafkaRecordMetadata = {
+  topicName: string;
+  partition: number;
+  errorCode: number;
+  baseOffset: string;
+};
+/** Structurally compatible with kafkajs' `EachMessagePayload`. */
+export type KafkaEachMessagePayload = {
+  topic: string;
+  partition: number;
+  message: {
+    key: Buffer | null;
+    value: Buffer;
+    offset: string;
+    timestamp: string;
+    headers: Record<string, unknown>;
+  };
+  heartbeat(): Promise<void>;
+  pause(): () => void;
+};
+export type KafkaConsumerRunConfig = {
+  eachMessage: (payload: KafkaEachMessagePayload) => Promise<void>;
+  /** Commit the offset after every handled message. Defaults to `true`. */
+  autoCommit?: boolean;
+  [option: string]: unknown;
+};
+export type KafkaClientOptions = {
+  /** Topics the client can reach by name. */
+  topics?: Topic[];
+  /**
+   * Queues that receive the records sent to the topic of the same name, such
+   * as shared queues from `getQueue`.
+   */
+  queues?: MessageQueue[];
+  /** Converts record values. Defaults to JSON. */
+  codec?: MessageCodec;
+};
+
+/**
+ * Presents topics through the surface of a kafkajs `Kafka` client, so code
+ * written against kafkajs runs unchanged against test doubles. Producing to
+ * an unknown topic creates it with one partition, like kafkajs'
+ * `allowAutoTopicCreation`. Every record sent is also published to the
+ * `MessageQueue` named after its topic, so queue matchers, `flush`, tracing
+ * and the queue registry see what producers send.
+ */
+export class KafkaClient {
+  private topics: Map<string, Topic> = new Map();
+  private queues: Map<string, MessageQueue> = new Map();
+  /** @internal */
+  codec: MessageCodec;
+
+  constructor({
+    topics = [],
+    queues = [],
+    codec = jsonCodec,
+  }: KafkaClientOptions = {}) {
+    topics.forEach((topic) => this.topics.set(topic.name, topic));
+    queues.forEach((queue) => this.queues.set(queue.name, queue));
+    this.codec = codec;
+  }
+
+  /** Returns the topic with the given name, if the client knows it. */
+  topic(name: string): Topic | undefined {
+    return this.topics.get(name);
+  }
+
+  /**
+   * Returns the queue receiving the records sent to the topic, if any were
+   * sent or it was passed to the client.
+   */
+  queue(name: string): MessageQueue | undefined {
+    return this.queues.get(name);
+  }
+
+  /** @internal */
+  queueFor(topicName: string): MessageQueue {
+    if (!this.queues.has(topicName)) {
+      this.queues.set(topicName, new MessageQueue(topicName));
+    }
+    return this.queues.get(topicName)!;
+  }
+
+  /** @internal */
+  topicsMatching(pattern: string | RegExp): Topic[] {
+    if (typeof pattern === "string") {
+      return [this.topics.get(pattern) ?? this.createTopic(pattern)];
+    }
+    return Array.from(this.topics.values()).filter(
+      (topic) => topic.name.search(pattern) !== -1,
+    );
+  }
+
+  private createTopic(name: string): Topic {
+    const topic = new Topic(name);
+    this.topics.set(name, topic);
+    return topic;
+  }
+
+  producer(_config?: unknown): KafkaProducer {
+    return new KafkaProducer(this);
+  }
+
+  consumer({
+    groupId,
+  }: {
+    groupId: string;
+    [option: string]: unknown;
+  }): KafkaConsumer {
+    return new KafkaConsumer(this, groupId);
+  }
+}
+
+export class KafkaProducer {
+  constructor(private client: KafkaClient) {}
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  /**
+   * Publishes the messages to the topic's queue, with their headers and
+   * timestamp as properties, and appends them to the topic.
+   *
+   * @returns The first offset written per partition.
+   * @throws {Error} If the partition of a message does not exist or the queue
+   * rejects the message, before it is published or appended.
+   */
+  async send({
+    topic: topicName,
+    messages,
+  }: KafkaProducerRecord): Promise<KafkaRecordMetadata[]> {
+    const [topic] = this.client.topicsMatching(topicName);
+    const queue = this.client.queueFor(topicName);
+    const baseOffsets: Map<number, number> = new Map();
+    for (const { key, value, partition, headers, timestamp } of messages) {
+      const decoded = this.client.codec.decode(toBuffer(value));
+      const time = timestamp === undefined ? Date.now() : Number(timestamp);
+      if (partition != null && topic.endOffsets()[partition] === undefined) {
+        throw new Error(`Partition ${partition} does not exist`);
+      }
+      queue.publish(decoded as MessagePayload, { headers, timestamp: time });
+      const written = topic.send({
+        value: decoded,
+        key: key == null ? undefined : toBuffer(key).toString(),
+        partition,
+        headers,
+        timestamp: time,
+      });
+      if (!baseOffsets.has(written.partition)) {
+        baseOffsets.set(written.partition, written.offset);
+      }
+    }
+    return Array.from(baseOffsets, ([partition, offset]) => ({
+      topicName,
+      partition,
+      errorCode: 0,
+      baseOffset: String(offset),
+    }));
+  }
+
+  async sendBatch({
+    topicMessages = [],
+  }: {
+    topicMessages?: KafkaProducerRecord[];
+  }): Promise<KafkaRecordMetadata[]> {
+    const metadata: KafkaRecordMetadata[] = [];
+    for (const record of topicMessages) {
+      metadata.push(...(await this.send(record)));
+    }
+    return metadata;
+  }
+}
+
+/**
+ * Joins one consumer group per subscribed topic and hands records to
+ * `eachMessage` one at a time, in partition order, as soon as they are sent.
+ * A throwing `eachMessage` stops the consumer before the failed record, which
+ * stays uncommitted; `flush` rethrows the error.
+ */
+export class KafkaConsumer {
+  private subscriptions: { topics: Topic[]; fromBeginning: boolean }[] = [];
+  private members: { topic: Topic; member: TopicConsumer }[] = [];
+  private unsubscribes: (() => void)[] = [];
+  private processing: Promise<void> = Promise.resolve();
+  private running = false;
+  private error: unknown;
+  private scheduleDrain: () => void = () => {};
+
+  constructor(
+    private client: KafkaClient,
+    public groupId: string,
+  ) {}
+
+  async connect(): Promise<void> {}
+
+  async subscribe({
+    topic,
+    topics = [],
+    fromBeginning = false,
+  }: {
+    topic?: string | RegExp;
+    topics?: (string | RegExp)[];
+    fromBeginning?: boolean;
+  }): Promise<void> {
+    const patterns = topic === undefined ? topics : [topic, ...topics];
+    this.subscriptions.push({
+      topics: patterns.flatMap((pattern) =>
+        this.client.topicsMatching(pattern),
+      ),
+      fromBeginning,
+    });
+  }
+
+  async run({
+    eachMessage,
+    autoCommit = true,
+  }: KafkaConsumerRunConfig): Promise<void> {
+    if (this.running) {
+      throw new Error("The consumer is already running");
+    }
+    this.running = true;
+    this.error = undefined;
+    this.members = this.subscriptions.flatMap(({ topics, fromBeginning }) =>
+      topics.map((topic) => ({
+        topic,
+        member: topic.consumerGroup(this.groupId, { fromBeginning }).join(),
+      })),
+    );
+    this.scheduleDrain = () => {
+      // A failed drain must not hold up the ones after it; `flush` reports it.
+      this.processing = this.processing
+        .then(() => this.drain(eachMessage, autoCommit))
+        .catch((error) => {
+          this.error ??= error;
+        });
+    };
+    this.unsubscribes = this.members.map(({ topic }) =>
+      topic.on("send", () => this.scheduleDrain()),
+    );
+    this.scheduleDrain();
+  }
+
+  private async drain(
+    eachMessage: KafkaConsumerRunConfig["eachMessage"],
+    autoCommit: boolean,
+  ): Promise<void> {
+    for (const { topic, member } of this.members) {
+      while (this.running) {
+        const [record] = member.poll(1);
+        if (!record) {
+          break;
+        }
+        try {
+          await eachMessage(this.toEachMessagePayload(topic, record));
+        } catch (error) {
+          // Leaving the group rewinds to the last committed offset.
+          this.error = error;
+          await this.stop();
+          return;
+        }
+        if (!member.assignment().includes(record.partition)) {
+          // The group rebalanced while `eachMessage` ran, rewinding the
+          // partition for its new owner. Poll the new assignment afresh.
+          this.scheduleDrain();
+          break;
+        }
+        if (autoCommit) {
+          member.commit([
+            { partition: record.partition, offset: record.offset + 1 },
+          ]);
+        }
+      }
+    }
+  }
+
+  private toEachMessagePayload(
+    topic: Topic,
+    record: TopicRecord,
+  ): KafkaEachMessagePayload {
+    return {
+      topic: topic.name,
+      partition: record.partition,
+      message: {
+        key: record.key === undefined ? null : Buffer.from(record.key),
+        value: this.client.codec.encode(record.value),
+        offset: String(record.offset),
+        timestamp: String(record.timestamp ?? 0),
+        headers: record.headers ?? {},
+      },
+      heartbeat: async () => {},
+      pause: () => () => {},
+    };
+  }
+
+  private memberFor(topicName: string): TopicConsumer {
+    const entry = this.members.find(({ topic }) => topic.name === topicName);
+    if (!entry) {
+      throw new Error(`Consumer is not running on topic "${topicName}"`);
+    }
+    return entry.member;
+  }
+
+  /** Commits offsets, each being the next offset to consume. */
+  async commitOffsets(
+    offsets: { topic: string; partition: number; offset: string }[],
+  ): Promise<void> {
+    for (const { topic, partition, offset } of offsets) {
+      this.memberFor(topic).commit([{ partition, offset: Number(offset) }]);
+    }
+  }
+
+  seek({
+    topic,
+    partition,
+    offset,
+  }: {
+    topic: string;
+    partition: number;
+    offset: string;
+  }): void {
+    this.memberFor(topic).seek(partition, Number(offset));
+    this.scheduleDrain();
+  }
+
+  /**
+   * Waits until every record sent so far was handled.
+   *
+   * @throws The error thrown by `eachMessage`, if it stopped the consumer, or
+   * why handing out records failed.
+   */
+  async flush(): Promise<void> {
+    await this.processing;
+    if (this.error !== undefined) {
+      throw this.error;
+    }
+  }
+
+  /** Leaves the consumer groups. Uncommitted records go to other members. */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.scheduleDrain = () => {};
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    this.members.forEach(({ member }) => member.leave());
+    this.members = [];
+  }
+
+  async disconnect(): Promise<void> {
+    await this.stop();
+  }
+}
@@ -0,0 +1,208 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import { MessageQueue, toPayload, type MessagePayload } from "./queue";
+import type { JsonSchema, JsonSchemaType } from "./schema";
+
+/**
+ * Recorded message shapes per message `type`, shared between a producer and
+ * a consumer test suite as a JSON file.
+ */
+export type MessageContract = {
+  version: 1;
+  messages: Record<
+    string,
+    {
+      schema: JsonSchema;
+      examples: MessagePayload[];
+    }
+  >;
+};
+export type ContractRecorderOptions = {
+  /** Distinct examples kept per message type. Defaults to 10. */
+  maxExamples?: number;
+};
+
+const jsonTypeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value as JsonSchemaType;
+};
+
+/**
+ * Infers the narrowest JSON Schema covering every given value. Object
+ * properties seen in every value are required and unseen properties are not
+ * allowed, so the schema describes exactly the recorded shapes.
+ */
+export const inferSchema = (values: unknown[]): JsonSchema => {
+  const types = Array.from(new Set(values.map(jsonTypeOf)));
+  const schema: JsonSchema = { type: types.length === 1 ? types[0] : types };
+
+  const objects = values.filter(
+    (value): value is Record<string, unknown> => jsonTypeOf(value) === "object",
+  );
+  if (objects.length > 0) {
+    const keys = Array.from(new Set(objects.flatMap(Object.keys)));
+    schema.properties = Object.fromEntries(
+      keys.map((key) => [
+        key,
+        inferSchema(
+          objects
+            .filter((object) => key in object)
+            .map((object) => object[key]),
+        ),
+      ]),
+    );
+    schema.required = keys.filter((key) =>
+      objects.every((object) => key in object),
+    );
+    schema.additionalProperties = false;
+  }
+
+  const items = values.filter(Array.isArray).flat();
+  if (items.length > 0) {
+    schema.items = inferSchema(items);
+  }
+  return schema;
+};
+
+const typesOf = ({ type }: JsonSchema): JsonSchemaType[] =>
+  type === undefined ? [] : Array.isArray(type) ? type : [type];
+
+/**
+ * Widens two inferred schemas to the schema `inferSchema` gives for the values
+ * of both, so recorders need not keep every value.
+ */
+const mergeSchemas = (a: JsonSchema, b: JsonSchema): JsonSchema => {
+  const types = Array.from(new Set([...typesOf(a), ...typesOf(b)]));
+  const schema: JsonSchema = { type: types.length === 1 ? types[0] : types };
+
+  if (a.properties || b.properties) {
+    const keys = Array.from(
+      new Set([
+        ...Object.keys(a.properties ?? {}),
+        ...Object.keys(b.properties ?? {}),
+      ]),
+    );
+    schema.properties = Object.fromEntries(
+      keys.map((key) => {
+        const [left, right] = [a.properties?.[key], b.properties?.[key]];
+        return [
+          key,
+          left && right ? mergeSchemas(left, right) : (left ?? right),
+        ];
+      }),
+    );
+    schema.required =
+      a.properties && b.properties
+        ? a.required!.filter((key) => b.required!.includes(key))
+        : (a.required ?? b.required);
+    schema.additionalProperties = false;
+  }
+
+  if (a.items && b.items) {
+    schema.items = mergeSchemas(a.items, b.items);
+  } else if (a.items || b.items) {
+    schema.items = a.items ?? b.items;
+  }
+  return schema;
+};
+
+/**
+ * Records every message published to the attached queues, grouped by `type`.
+ * Messages without a `type` are not recorded.
+ */
+export class ContractRecorder {
+  private examples: Map<string, MessagePayload[]> = new Map();
+  // Inferred from every recorded message, not only the kept examples.
+  private schemas: Map<string, JsonSchema> = new Map();
+  private maxExamples: number;
+
+  constructor({ maxExamples = 10 }: ContractRecorderOptions = {}) {
+    this.maxExamples = maxExamples;
+  }
+
+  /**
+   * Starts recording messages published to the queue.
+   *
+   * @returns A function that stops recording.
+   */
+  record<T extends MessagePayload>(queue: MessageQueue<T>): () => void {
+    return queue.on("publish", (message) => {
+      if (message.type !== undefined) {
+        this.add(message.type, toPayload(message));
+      }
+    });
+  }
+
+  private add(type: string, payload: MessagePayload): void {
+    const schema = inferSchema([payload]);
+    const recorded = this.schemas.get(type);
+    this.schemas.set(type, recorded ? mergeSchemas(recorded, schema) : schema);
+    const examples = this.examples.get(type) ?? [];
+    this.examples.set(type, examples);
+    if (
+      examples.length < this.maxExamples &&
+      !examples.some((example) => isDeepStrictEqual(example, payload))
+    ) {
+      examples.push(payload);
+    }
+  }
+
+  getContract(): MessageContract {
+    const types = Array.from(this.examples.keys()).sort();
+    return {
+      version: 1,
+      messages: Object.fromEntries(
+        types.map((type) => {
+          const examples = this.examples.get(type)!;
+          return [type, { schema: this.schemas.get(type)!, examples }];
+        }),
+      ),
+    };
+  }
+
+  /** Writes the contract as JSON, creating missing directories. */
+  save(filePath: string): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, `${JSON.stringify(this.getContract(), null, 2)}\n`);
+  }
+
+  clear(): void {
+    this.examples.clear();
+    this.schemas.clear();
+  }
+}
+
+export const loadContract = (filePath: string): MessageContract => {
+  const contract = JSON.parse(readFileSync(filePath, "utf8"));
+  if (contract?.version !== 1 || typeof contract.messages !== "object") {
+    throw new Error(`Not a message contract: ${filePath}`);
+  }
+  return contract;
+};
+
+/**
+ * Publishes the recorded examples of a contract to the queue and waits for its
+ * handlers, so a consumer suite runs against what the producer really sent.
+ *
+ * @returns The ids of the replayed messages.
+ * @throws {AggregateError} If any handler failed, as `flush` does.
+ */
+export async function replayContract<T extends MessagePayload = MessagePayload>(
+  contract: MessageContract,
+  queue: MessageQueue<T>,
+  { types }: { types?: string[] } = {},
+): Promise<number[]> {
+  const ids = Object.entries(contract.messages)
+    .filter(([type]) => !types || types.includes(type))
+    .flatMap(([, { examples }]) =>
+      examples.map((example) => queue.publish(example as T)),
+    );
+  await queue.flush();
+  return ids;
+}
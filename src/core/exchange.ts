@@ -0,0 +1,135 @@
+import {
+  MessageQueue,
+  type MessagePayload,
+  type PublishOptions,
+} from "./queue";
+import { matchesTopic } from "./routing";
+
+export type ExchangeType = "direct" | "fanout" | "topic";
+
+type Binding<T extends MessagePayload> = {
+  queue: MessageQueue<T>;
+  bindingKey: string;
+};
+
+/**
+ * Routes published messages to bound queues, following RabbitMQ exchange
+ * semantics. A queue receives a message at most once, even when several of its
+ * bindings match.
+ */
+export class Exchange<T extends MessagePayload = MessagePayload> {
+  private bindings: Binding<T>[] = [];
+  private unroutedMessages: T[] = [];
+
+  constructor(
+    public name: string,
+    public type: ExchangeType = "direct",
+  ) {
+    if (!name) {
+      throw new Error("Exchange name is required");
+    }
+    if (!["direct", "fanout", "topic"].includes(type)) {
+      throw new Error(`Unknown exchange type: ${type}`);
+    }
+  }
+
+  getExchange(): {
+    name: string;
+    type: ExchangeType;
+    bindings: { queue: string; bindingKey: string }[];
+    unroutedMessages: T[];
+  } {
+    return {
+      name: this.name,
+      type: this.type,
+      bindings: this.bindings.map(({ queue, bindingKey }) => ({
+        queue: queue.name,
+        bindingKey,
+      })),
+      unroutedMessages: [...this.unroutedMessages],
+    };
+  }
+
+  /**
+   * Binds a queue to the exchange. Fanout exchanges ignore the binding key.
+   *
+   * @returns A function that removes the binding.
+   */
+  bind(queue: MessageQueue<T>, bindingKey = ""): () => void {
+    const isBound = this.bindings.some(
+      (binding) => binding.queue === queue && binding.bindingKey === bindingKey,
+    );
+    if (!isBound) {
+      this.bindings.push({ queue, bindingKey });
+    }
+
+    return () => this.unbind(queue, bindingKey);
+  }
+
+  private unbind(queue: MessageQueue<T>, bindingKey: string): void {
+    this.bindings = this.bindings.filter(
+      (binding) => binding.queue !== queue || binding.bindingKey !== bindingKey,
+    );
+  }
+
+  private matches(bindingKey: string, routingKey: string): boolean {
+    switch (this.type) {
+      case "fanout":
+        return true;
+      case "topic":
+        return matchesTopic(bindingKey, routingKey);
+      default:
+        return bindingKey === routingKey;
+    }
+  }
+
+  /**
+   * Publishes a message to every queue with a matching binding. The routing key
+   * defaults to the message `type`. Messages that match no binding are kept in
+   * `unroutedMessages`. The options, such as message properties, are passed
+   * to every queue's `publish`, which keeps the exchange name and routing key
+   * in the envelope metadata. A queue that throws, such as a full
+   * `reject-publish` queue, does not keep the message from the other queues.
+   *
+   * @returns The names of the queues the message was routed to.
+   * @throws {AggregateError} With the errors of the queues that rejected the
+   * message, once it was published to all other queues.
+   */
+  publish(
+    message: T,
+    routingKey = message.type ?? "",
+    options: PublishOptions = {},
+  ): string[] {
+    const queues = new Set<MessageQueue<T>>();
+    for (const binding of this.bindings) {
+      if (this.matches(binding.bindingKey, routingKey)) {
+        queues.add(binding.queue);
+      }
+    }
+    if (queues.size === 0) {
+      this.unroutedMessages.push(message);
+    }
+
+    const errors: Error[] = [];
+    for (const queue of queues) {
+      try {
+        queue.publish(message, { ...options, exchange: this.name, routingKey });
+      } catch (error) {
+        errors.push(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `Publish to exchange "${this.name}" was rejected by one or more queues`,
+      );
+    }
+
+    return Array.from(queues, (queue) => queue.name);
+  }
+
+  clear(): void {
+    this.bindings = [];
+    this.unroutedMessages = [];
+  }
+}
@@ -1,36 +1,271 @@
-import { Message, MessageQueue, type MessagePayload } from "./queue";
+import { stringify } from "jest-matcher-utils";
+import {
+  Message,
+  MessageQueue,
+  matchesSelector,
+  type MessagePayload,
+  type MessageSelector,
+  type QueueEvents,
+} from "./queue";
+
+/**
+ * Narrows the awaited messages beyond their type: either a partial message,
+ * compared recursively and supporting asymmetric matchers such as
+ * `expect.any(String)`, or a predicate.
+ */
+export type MessageMatch<T extends MessagePayload = MessagePayload> =
+  | Record<string, unknown>
+  | ((message: Message<T>) => boolean);
+
+type WaitParams<T extends MessagePayload> = {
+  queue: MessageQueue<T>;
+  messageType?: string;
+  match?: MessageMatch<T>;
+};
+
+const isAsymmetricMatcher = (
+  value: unknown,
+): value is { asymmetricMatch: (other: unknown) => boolean } =>
+  typeof (value as { asymmetricMatch?: unknown })?.asymmetricMatch ===
+  "function";
+
+const matchesPartial = (actual: unknown, expected: unknown): boolean => {
+  if (isAsymmetricMatcher(expected)) {
+    return expected.asymmetricMatch(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesPartial(actual[index], item))
+    );
+  }
+  if (expected !== null && typeof expected === "object") {
+    return (
+      actual !== null &&
+      typeof actual === "object" &&
+      Object.entries(expected).every(([key, value]) =>
+        matchesPartial((actual as Record<string, unknown>)[key], value),
+      )
+    );
+  }
+  return Object.is(actual, expected);
+};
+
+const toSelector = <T extends MessagePayload>({
+  messageType,
+  match,
+}: Omit<WaitParams<T>, "queue">): MessageSelector<T> | undefined => {
+  // A bare type keeps using the queue's own type matching.
+  if (match === undefined) {
+    return messageType;
+  }
+  return (message) =>
+    (messageType === undefined || matchesSelector(messageType, message)) &&
+    (typeof match === "function"
+      ? match(message)
+      : matchesPartial(message, match));
+};
+
+const describeWait = <T extends MessagePayload>({
+  messageType,
+  match,
+}: Omit<WaitParams<T>, "queue">): string => {
+  const typeStr = messageType === undefined ? "" : ` type: ${messageType}`;
+  const matchStr =
+    match === undefined
+      ? ""
+      : typeof match === "function"
+        ? " matching predicate"
+        : ` matching ${stringify(match)}`;
+  return `${typeStr}${matchStr}`;
+};
+
+const describeArrivals = <T extends MessagePayload>(
+  arrivals: Message<T>[],
+): string =>
+  arrivals.length === 0
+    ? "No messages were published to the queue."
+    : `Messages in the queue while waiting:\n  ${arrivals.map((message) => stringify(message)).join("\n  ")}`;
 
 /**
  * Waits asynchronously for a specific type of message from the given message queue within a specified timeout period.
+ * The queue is checked right away and again on every publish, and the timeout runs on `setTimeout`, so the helper works with Jest's fake timers.
  *
  * @template T - The type of the message.
  * @param {Object} params - The parameters for the function.
  * @param {MessageQueue<T>} params.queue - The message queue to receive messages from.
- * @param {string} params.messageType - The type of message to wait for.
+ * @param {string} [params.messageType] - The type of message to wait for. Any type when omitted.
+ * @param {MessageMatch<T>} [params.match] - A partial message or predicate the message must match.
  * @param {number} [params.timeout=3000] - The maximum time to wait for the message, in milliseconds. Defaults to 3000 ms.
  * @returns {Promise<Message<T>>} A promise that resolves with the received message if it arrives within the timeout period, or rejects with an error if the timeout is reached.
- * @throws {Error} If the timeout is reached before a message of the specified type is received.
+ * @throws {Error} If the timeout is reached before a matching message is received. The error lists the messages that did arrive.
  */
 export async function expectMessage<T extends MessagePayload = MessagePayload>({
+  timeout = 3000,
+  ...params
+}: WaitParams<T> & { timeout?: number }): Promise<Message<T>> {
+  const [message] = await expectMessages({ ...params, count: 1, timeout });
+  return message;
+}
+
+/**
+ * Waits asynchronously for a number of matching messages, consuming each as it arrives.
+ *
+ * @template T - The type of the message.
+ * @param {Object} params - The parameters for the function.
+ * @param {MessageQueue<T>} params.queue - The message queue to receive messages from.
+ * @param {string} [params.messageType] - The type of message to wait for. Any type when omitted.
+ * @param {MessageMatch<T>} [params.match] - A partial message or predicate the messages must match.
+ * @param {number} params.count - The number of messages to wait for.
+ * @param {number} [params.timeout=3000] - The maximum time to wait for all messages, in milliseconds. Defaults to 3000 ms.
+ * @returns {Promise<Message<T>[]>} A promise that resolves with the received messages in arrival order.
+ * @throws {Error} If the timeout is reached before enough matching messages are received. The error lists the messages that did arrive. A throwing `match` predicate rejects with its error.
+ */
+export async function expectMessages<
+  T extends MessagePayload = MessagePayload,
+>({
   queue,
-  messageType,
+  count,
   timeout = 3000,
-}: {
-  queue: MessageQueue<T>;
-  messageType: string;
-  timeout?: number;
-}): Promise<Message<T>> {
+  ...filter
+}: WaitParams<T> & { count: number; timeout?: number }): Promise<Message<T>[]> {
+  const selector = toSelector(filter);
+  const received: Message<T>[] = [];
+  const receiveMatching = () => {
+    while (received.length < count) {
+      const message = queue.receiveMessage(selector);
+      if (!message) {
+        return;
+      }
+      received.push(message);
+    }
+  };
+
   return new Promise((resolve, reject) => {
-    const startTime = Date.now();
-    const intervalId = setInterval(() => {
-      const message = queue.receiveMessage(messageType);
-      if (message) {
-        clearInterval(intervalId);
-        resolve(message);
-      } else if (Date.now() - startTime > timeout) {
-        clearInterval(intervalId);
-        reject(new Error(`Timeout waiting for message type: ${messageType}`));
+    receiveMatching();
+    if (received.length >= count) {
+      resolve(received);
+      return;
+    }
+
+    const arrivals = queue.getQueue().sentMessages;
+    const unsubscribe = queue.on("publish", (message) => {
+      arrivals.push(message);
+      // The publish already happened, so a throwing `match` only fails the wait.
+      try {
+        receiveMatching();
+      } catch (error) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        reject(error);
+        return;
+      }
+      if (received.length >= count) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        resolve(received);
       }
-    }, 10);
+    });
+    const timeoutId = setTimeout(() => {
+      unsubscribe();
+      const waitingFor =
+        count === 1
+          ? `message${describeWait(filter)}`
+          : `messages${describeWait(filter)} (received ${received.length} of ${count})`;
+      reject(
+        new Error(
+          `Timeout waiting for ${waitingFor}\n${describeArrivals(arrivals)}`,
+        ),
+      );
+    }, timeout);
+  });
+}
+
+/**
+ * Asserts that no matching message is pending or published within the given time. Matching messages are not consumed.
+ *
+ * @template T - The type of the message.
+ * @param {Object} params - The parameters for the function.
+ * @param {MessageQueue<T>} params.queue - The message queue to watch.
+ * @param {string} [params.messageType] - The type of message that must not arrive. Any type when omitted.
+ * @param {MessageMatch<T>} [params.match] - A partial message or predicate narrowing the forbidden messages.
+ * @param {number} [params.within=100] - How long to watch the queue, in milliseconds. Defaults to 100 ms.
+ * @returns {Promise<void>} A promise that resolves once the time has passed without a matching message.
+ * @throws {Error} As soon as a matching message is found, including the message in the error, or with the error of a throwing `match` predicate.
+ */
+export async function expectNoMessage<
+  T extends MessagePayload = MessagePayload,
+>({
+  queue,
+  within = 100,
+  ...filter
+}: WaitParams<T> & { within?: number }): Promise<void> {
+  const selector = toSelector(filter);
+  const isUnexpected = (message: Message<T>) =>
+    !selector || matchesSelector(selector, message);
+  const unexpected = (message: Message<T>) =>
+    new Error(
+      `Expected no message${describeWait(filter)} within ${within}ms, but received:\n  ${stringify(message)}`,
+    );
+
+  return new Promise((resolve, reject) => {
+    const pending = queue.getQueue().sentMessages.find(isUnexpected);
+    if (pending) {
+      reject(unexpected(pending));
+      return;
+    }
+
+    const unsubscribe = queue.on("publish", (message) => {
+      let error: unknown;
+      try {
+        if (isUnexpected(message)) {
+          error = unexpected(message);
+        }
+      } catch (matchError) {
+        error = matchError;
+      }
+      if (error !== undefined) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        reject(error);
+      }
+    });
+    const timeoutId = setTimeout(() => {
+      unsubscribe();
+      resolve();
+    }, within);
+  });
+}
+
+/**
+ * Resolves `true` as soon as `condition` holds, checking now and after each of
+ * the given queue events, or `false` once the timeout passed.
+ */
+export async function waitUntil<T extends MessagePayload = MessagePayload>(
+  queue: MessageQueue<T>,
+  events: ReadonlyArray<keyof QueueEvents<T>>,
+  condition: () => boolean,
+  timeout: number,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (condition()) {
+      resolve(true);
+      return;
+    }
+
+    const done = (result: boolean) => {
+      clearTimeout(timeoutId);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      resolve(result);
+    };
+    const unsubscribes = events.map((event) =>
+      queue.on(event, () => {
+        if (condition()) {
+          done(true);
+        }
+      }),
+    );
+    const timeoutId = setTimeout(() => done(false), timeout);
   });
 }
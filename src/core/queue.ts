@@ -1,9 +1,74 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createRandom } from "./random";
+import { matchesTopic } from "./routing";
+import {
+  validatePayload,
+  type MessageSchema,
+  type ValidationResult,
+} from "./schema";
+
 export type MessagePayload = Record<string, unknown> & {
   type?: string;
 };
+export type DeadLetterReason =
+  | "rejected"
+  | "delivery-limit"
+  | "handler-error"
+  | "expired"
+  | "max-length";
+/**
+ * Describes why and where from a message was moved to a dead-letter queue.
+ */
+export type DeadLetter = {
+  reason: DeadLetterReason;
+  /** Name of the queue the message was dead-lettered from. */
+  queue: string;
+  /** Message id in the original queue. */
+  id: number;
+  /** Error thrown by the handler, for `handler-error` dead letters. */
+  error?: Error;
+};
+/**
+ * Broker properties passed to `publish` next to the payload, as AMQP message
+ * properties or Kafka record headers.
+ */
+export type MessageProperties = {
+  headers?: Record<string, unknown>;
+  correlationId?: string;
+  /** Name of the queue a reply should be published to. */
+  replyTo?: string;
+  contentType?: string;
+  /** Milliseconds since the epoch, as set by the publisher. */
+  timestamp?: number;
+  /**
+   * Higher priorities are received and dispatched first on queues with a
+   * `maxPriority`. Ignored by other queues. Defaults to 0.
+   */
+  priority?: number;
+};
+/**
+ * Metadata the queue attaches to the envelope. Each field is only present
+ * once the queue sets it.
+ */
+export type EnvelopeMetadata = {
+  redelivered?: boolean;
+  deadLetter?: DeadLetter;
+  /** The properties given to `publish`, when any were given. */
+  properties?: MessageProperties;
+  /** The exchange the message was published to, `""` for the default one. */
+  exchange?: string;
+  /** The routing key the message was published with. */
+  routingKey?: string;
+};
+/**
+ * Key of the envelope metadata on queue messages. A symbol, so it cannot
+ * collide with payload fields and survives spreading a message.
+ */
+export const envelope: unique symbol = Symbol.for("jest-mq.envelope");
 /**
  * Queue messages normalize `type` and `id` on the envelope, overriding any
- * payload values for those fields.
+ * payload values for those fields. The envelope metadata sits under the
+ * `envelope` key, present only once the queue set some.
  */
 export type Message<T extends MessagePayload = MessagePayload> = Omit<
   T,
@@ -11,20 +76,446 @@ export type Message<T extends MessagePayload = MessagePayload> = Omit<
 > & {
   type: string | undefined;
   id: number;
+  [envelope]?: EnvelopeMetadata;
 };
 export type MessageHandler<T extends MessagePayload = MessagePayload> = (
   message: Message<T>,
 ) => Promise<void> | void;
+/**
+ * Selects the messages a handler subscribes to: an exact `type`, a topic
+ * pattern where `*` matches one dot-separated word and `#` zero or more, a
+ * `RegExp` tested against `type`, or a predicate on the whole message.
+ */
+export type MessageSelector<T extends MessagePayload = MessagePayload> =
+  | string
+  | RegExp
+  | ((message: Message<T>) => boolean);
+
+type Subscription<T extends MessagePayload> = {
+  /** The handler as subscribed. */
+  handler: MessageHandler<T>;
+  /** Calls the handler within its context and `prefetch` limit. */
+  run: MessageHandler<T>;
+  consumerTag: string;
+  inFlight: number;
+};
+
+const deliveryModes: ReadonlyArray<DeliveryMode> = [
+  "broadcast",
+  "round-robin",
+  "random",
+  "least-busy",
+];
+
+const overflowPolicies: ReadonlyArray<OverflowPolicy> = [
+  "drop-head",
+  "reject-publish",
+  "block",
+];
+
+const validatePrefetch = (prefetch: number | undefined): void => {
+  if (prefetch !== undefined && (!Number.isInteger(prefetch) || prefetch < 1)) {
+    throw new Error("prefetch must be a positive integer");
+  }
+};
+
+/**
+ * Wraps a function so that at most `limit` calls run at once. Waiting calls
+ * start by descending priority, and in arrival order within a priority.
+ */
+const limitConcurrency = <A>(
+  fn: (arg: A) => Promise<void> | void,
+  limit: number,
+  priorityOf: (arg: A) => number,
+): ((arg: A) => Promise<void>) => {
+  let active = 0;
+  const waiting: { priority: number; start: () => void }[] = [];
+  return async (arg) => {
+    if (active < limit) {
+      active++;
+    } else {
+      const priority = priorityOf(arg);
+      await new Promise<void>((start) => {
+        const index = waiting.findIndex((call) => call.priority < priority);
+        waiting.splice(index === -1 ? waiting.length : index, 0, {
+          priority,
+          start,
+        });
+      });
+    }
+    try {
+      await fn(arg);
+    } finally {
+      // Hand the slot straight to the next waiting call.
+      const next = waiting.shift();
+      if (next) {
+        next.start();
+      } else {
+        active--;
+      }
+    }
+  };
+};
+
+const handlerContext = new AsyncLocalStorage<HandlerContext>();
+
+/**
+ * Returns the subscribed handler call the caller runs in, following `await`
+ * and timers started by the handler.
+ */
+export const getHandlerContext = (): HandlerContext | undefined =>
+  handlerContext.getStore();
+
+const createMessage = <T extends MessagePayload>(
+  payload: T,
+  metadata: EnvelopeMetadata,
+  id: number,
+): Message<T> => {
+  const message = {
+    ...toPayload(payload as unknown as Message<T>),
+    type: payload.type,
+    id,
+  } as Message<T>;
+  if (Object.keys(metadata).length > 0) {
+    message[envelope] = metadata;
+  }
+  return message;
+};
+
+/**
+ * Strips the queue-provided `id` and envelope metadata, leaving the published
+ * payload.
+ */
+export const toPayload = <T extends MessagePayload>({
+  id: _id,
+  [envelope]: _metadata,
+  ...payload
+}: Message<T>): MessagePayload => payload;
+
+/**
+ * Returns the metadata the queue attached to a message.
+ */
+export const getMetadata = <T extends MessagePayload>(
+  message: Message<T>,
+): EnvelopeMetadata => ({ ...message[envelope] });
+
+/** A copy of a queue message flagged as `redelivered`. */
+const redeliver = <T extends MessagePayload>(message: Message<T>): Message<T> =>
+  createMessage(
+    toPayload(message) as T,
+    { ...getMetadata(message), redelivered: true },
+    message.id,
+  );
+
+/**
+ * Size of a message towards `maxBytes`: the bytes of its payload as JSON.
+ */
+const messageSize = (message: Message): number =>
+  Buffer.byteLength(JSON.stringify(toPayload(message)));
+
+/**
+ * Tests a message against a subscription selector. Predicate errors propagate.
+ */
+export const matchesSelector = <T extends MessagePayload>(
+  selector: MessageSelector<T>,
+  message: Message<T>,
+): boolean => {
+  if (typeof selector === "function") {
+    return selector(message);
+  }
+  if (message.type === undefined) {
+    return false;
+  }
+  if (selector instanceof RegExp) {
+    // `search` ignores `lastIndex`, so global regexps behave consistently.
+    return message.type.search(selector) !== -1;
+  }
+  return matchesTopic(selector, message.type);
+};
+
+export type MessageQueueOptions = {
+  /**
+   * Maximum number of deliveries per message. A requeueing `nack` on a message
+   * that reached the limit rejects it instead. Unlimited by default.
+   */
+  maxDeliveries?: number;
+  /**
+   * Queue that receives rejected messages, messages past `maxDeliveries` and
+   * messages whose handler throws. The handler error that dead-letters a
+   * message is kept on `deadLetter.error` instead of being rethrown by
+   * `flush`. Errors thrown for a message that is no longer pending, such as
+   * by a second handler of a dead-lettered message, are still rethrown.
+   */
+  deadLetterQueue?: MessageQueue;
+  /**
+   * Contracts per message `type`: a JSON Schema or a validator adapter.
+   * Messages of types without a schema are not validated.
+   */
+  schemas?: Record<string, MessageSchema>;
+  /**
+   * What `publish` does with a message that fails its schema: `throw` (the
+   * default) rejects the publish, `record` publishes it and lists it in
+   * `invalidMessages`.
+   */
+  onInvalidMessage?: "throw" | "record";
+  /**
+   * Default `prefetch` for subscriptions that do not set their own. Unlimited
+   * by default.
+   */
+  prefetch?: number;
+  /**
+   * Dispatch one message at a time: the handlers of a message only start once
+   * every handler of the previous message finished. Waiting messages start in
+   * priority order on queues with a `maxPriority`.
+   */
+  sequential?: boolean;
+  /**
+   * How a message is handed to its matching subscriptions: `broadcast` (the
+   * default) calls every one of them, the other modes pick a single competing
+   * consumer, in turn, at random, or the one with the fewest calls in flight.
+   */
+  delivery?: DeliveryMode;
+  /** Seed for `random` delivery, making the picks reproducible. */
+  seed?: number;
+  /**
+   * Maximum number of pending messages. Messages beyond the limit are handled
+   * as `overflow` says. Unlimited by default.
+   */
+  maxLength?: number;
+  /**
+   * Maximum total size of the pending messages, counted in bytes of their
+   * payloads as JSON. Unlimited by default.
+   */
+  maxBytes?: number;
+  /**
+   * What happens to a message that does not fit: `drop-head` (the default)
+   * drops the oldest pending messages, rejects and dead-letters them with
+   * reason `max-length`, `reject-publish` drops the new message and makes `publish`
+   * throw, `block` holds new messages back until pending messages are
+   * acknowledged or rejected.
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * Makes this a priority queue: pending messages are kept, received and
+   * dispatched by descending `priority`, and in publish order within a
+   * priority. Higher message priorities count as `maxPriority`.
+   */
+  maxPriority?: number;
+  /**
+   * Simulates at-least-once delivery: once the handlers of a selected message
+   * settled, they receive it again, flagged as `redelivered`.
+   */
+  atLeastOnce?: AtLeastOnceOptions;
+};
+export type AtLeastOnceOptions = {
+  /** Extra deliveries per message. Defaults to 1. */
+  times?: number;
+  /** Redelivers only the matching messages. Every message by default. */
+  selector?: MessageSelector;
+  /**
+   * Captures the state the handlers change, such as the rows they wrote,
+   * once the first delivery settled and after each duplicate. The result is
+   * deep-copied for `toHaveIdempotentHandlers`, which fails without it.
+   */
+  snapshot?: () => unknown;
+};
+/**
+ * Records the duplicate deliveries of a message under `atLeastOnce`. The
+ * snapshots are only present when a `snapshot` was configured.
+ */
+export type DuplicateDelivery<T extends MessagePayload = MessagePayload> = {
+  message: Message<T>;
+  /** The `snapshot` once the first delivery settled. */
+  afterFirst?: unknown;
+  /** The `snapshot` after each duplicate delivery. */
+  afterDuplicates?: unknown[];
+};
+export type OverflowPolicy = "drop-head" | "reject-publish" | "block";
+export type DeliveryMode =
+  | "broadcast"
+  | "round-robin"
+  | "random"
+  | "least-busy";
+/**
+ * Records that a subscription was handed a message.
+ */
+export type Delivery = {
+  /** Message id. */
+  id: number;
+  consumerTag: string;
+};
+/**
+ * Broker faults injected into `publish`. Rates are probabilities between 0
+ * and 1, drawn from the queue's random number generator.
+ */
+export type FaultOptions = {
+  /** Number of upcoming publishes that throw instead of enqueueing. */
+  failPublishes?: number;
+  /**
+   * Extra milliseconds before a published message is enqueued: a fixed
+   * latency or a random one within the range.
+   */
+  latency?: number | { min: number; max: number };
+  /** Share of published messages that are lost, see `droppedMessages`. */
+  dropRate?: number;
+  /**
+   * Share of published messages that are delivered twice. The duplicate keeps
+   * the message id and is flagged as `redelivered`.
+   */
+  duplicateRate?: number;
+  /** Seeds the draws of these faults. Defaults to the queue's `seed`. */
+  seed?: number;
+};
+export type SubscribeOptions = {
+  /** Names the subscription in `deliveries`. Defaults to `consumer-<n>`. */
+  consumerTag?: string;
+  /**
+   * Maximum number of messages the handler processes at once. Further
+   * messages wait, in order, for a free slot; a prefetch of 1 handles
+   * messages strictly one after another.
+   */
+  prefetch?: number;
+};
+export type InvalidMessage<T extends MessagePayload = MessagePayload> = {
+  message: T;
+  errors: string[];
+};
+/**
+ * Buffers publishes and acknowledgements until `transaction` commits them.
+ */
+export type QueueTransaction<T extends MessagePayload = MessagePayload> = {
+  /** Validates the message right away and enqueues it on commit. */
+  publish(message: T, options?: PublishOptions): void;
+  /** Acknowledges the message on commit. */
+  ack(message: Message<T>): void;
+};
+export type PublishOptions = MessageProperties & {
+  /**
+   * Milliseconds before the message is enqueued and dispatched. Scheduled on
+   * `setTimeout`, so it follows Jest's fake timers.
+   */
+  delay?: number;
+  /**
+   * Milliseconds a message may stay pending once enqueued. Expired messages are
+   * rejected and dead-lettered with reason `expired`. Messages already handed
+   * to a handler or received do not expire.
+   */
+  ttl?: number;
+  /**
+   * Exchange and routing key the message was published with, kept in the
+   * envelope metadata. `Exchange.publish` sets them.
+   */
+  exchange?: string;
+  routingKey?: string;
+};
+/**
+ * A subscribed handler call, identified by the queue, message and consumer.
+ */
+export type HandlerContext = {
+  queue: string;
+  messageId: number;
+  consumerTag: string;
+};
+export type HandlerEvent<T extends MessagePayload = MessagePayload> = {
+  message: Message<T>;
+  consumerTag: string;
+};
+/**
+ * Payloads of the events emitted through `MessageQueue.on`.
+ */
+export type QueueEvents<T extends MessagePayload = MessagePayload> = {
+  /** A message was enqueued, after its `delay` if it had one. */
+  publish: Message<T>;
+  /**
+   * A message was handed to a subscription, or returned by `receiveMessage`
+   * when `consumerTag` is missing.
+   */
+  deliver: Omit<HandlerEvent<T>, "consumerTag"> & { consumerTag?: string };
+  /** A handler started, after waiting for a free `prefetch` slot. */
+  handlerStart: HandlerEvent<T>;
+  /** A handler returned or resolved. */
+  handlerEnd: HandlerEvent<T>;
+  /** A handler threw or rejected. */
+  handlerError: HandlerEvent<T> & { error: Error };
+  /** A message was acknowledged, by `ack` or by an auto-acking receive. */
+  ack: Message<T>;
+};
+type QueueListener = (payload: never) => void;
+type PreparedPublish<T extends MessagePayload> = {
+  message: T;
+  metadata: EnvelopeMetadata;
+  delay: number | undefined;
+  ttl: number | undefined;
+  /** Schema errors, recorded once the message is published. */
+  errors: string[];
+};
+/** The injected faults drawn for a publish, or once for a transaction. */
+type PublishFaults = {
+  lost: boolean;
+  latency: number;
+  duplicated: boolean;
+};
+export type NackOptions = {
+  /** Put the message back for redelivery. Defaults to `true`. */
+  requeue?: boolean;
+};
 
 export class MessageQueue<T extends MessagePayload = MessagePayload> {
   private sentMessages: Message<T>[] = [];
   private receivedMessages: Message<T>[] = [];
-  private handlers: Map<string | undefined, MessageHandler<T>[]> = new Map();
+  private rejectedMessages: Message<T>[] = [];
+  private deliveryCounts: Map<number, number> = new Map();
   private messageCount: number = 0;
   private pendingHandlers: Set<Promise<void>> = new Set();
   private handlerErrors: Error[] = [];
+  private maxDeliveries: number | undefined;
+  private deadLetterQueue: MessageQueue | undefined;
+  private schemas: Record<string, MessageSchema>;
+  private onInvalidMessage: "throw" | "record";
+  private invalidMessages: InvalidMessage<T>[] = [];
+  private scheduledMessages: Message<T>[] = [];
+  private prefetch: number | undefined;
+  private sequential: boolean;
+  private sequentialDispatch = this.createSequentialDispatch();
+  private delivery: DeliveryMode;
+  private seed: number | undefined;
+  private random: () => number;
+  private roundRobinCount: number = 0;
+  private subscriptionCount: number = 0;
+  private subscriptions: Map<
+    MessageSelector<T> | undefined,
+    Subscription<T>[]
+  > = new Map();
+  private deliveries: Delivery[] = [];
+  private faults: FaultOptions = {};
+  private faultRandom: () => number;
+  private droppedMessages: Message<T>[] = [];
+  private connected: boolean = true;
+  private pausedMessages: Message<T>[] = [];
+  private maxLength: number | undefined;
+  private maxBytes: number | undefined;
+  private overflow: OverflowPolicy;
+  private blockedMessages: {
+    message: Message<T>;
+    ttl: number | undefined;
+    onConfirm?: (result: number | Error) => void;
+  }[] = [];
+  private maxPriority: number | undefined;
+  private atLeastOnce: AtLeastOnceOptions | undefined;
+  private duplicateDeliveries: DuplicateDelivery<T>[] = [];
+  private firstDeliveries: Set<Promise<void>> = new Set();
+  // Duplicates run one message at a time, after the previous ones.
+  private duplicatesDone: Promise<void> = Promise.resolve();
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+  // Confirms of delayed publishes, settled once the delay passed.
+  private scheduledConfirms: Map<Message<T>, (result: number | Error) => void> =
+    new Map();
+  private listeners: Map<keyof QueueEvents<T>, Set<QueueListener>> = new Map();
 
-  constructor(public name: string) {
+  constructor(
+    public name: string,
+    options: MessageQueueOptions = {},
+  ) {
     if (!name) {
       throw new Error("Queue name is required");
     }
@@ -34,69 +525,846 @@ export class MessageQueue<T extends MessagePayload = MessagePayload> {
     if (name.includes(" ")) {
       throw new Error("Queue name cannot contain spaces");
     }
+    if (
+      options.maxDeliveries !== undefined &&
+      (!Number.isInteger(options.maxDeliveries) || options.maxDeliveries < 1)
+    ) {
+      throw new Error("maxDeliveries must be a positive integer");
+    }
+    validatePrefetch(options.prefetch);
+    if (
+      options.delivery !== undefined &&
+      !deliveryModes.includes(options.delivery)
+    ) {
+      throw new Error(`Unknown delivery mode: ${options.delivery}`);
+    }
+    for (const [option, limit] of Object.entries({
+      maxLength: options.maxLength,
+      maxBytes: options.maxBytes,
+    })) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new Error(`${option} must be a positive integer`);
+      }
+    }
+    if (
+      options.overflow !== undefined &&
+      !overflowPolicies.includes(options.overflow)
+    ) {
+      throw new Error(`Unknown overflow policy: ${options.overflow}`);
+    }
+    if (
+      options.maxPriority !== undefined &&
+      !(
+        Number.isInteger(options.maxPriority) &&
+        options.maxPriority >= 1 &&
+        options.maxPriority <= 255
+      )
+    ) {
+      throw new Error("maxPriority must be an integer between 1 and 255");
+    }
+    const times = options.atLeastOnce?.times;
+    if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+      throw new Error("atLeastOnce.times must be a positive integer");
+    }
+    this.maxDeliveries = options.maxDeliveries;
+    this.deadLetterQueue = options.deadLetterQueue;
+    this.schemas = { ...options.schemas };
+    this.onInvalidMessage = options.onInvalidMessage ?? "throw";
+    this.prefetch = options.prefetch;
+    this.sequential = options.sequential ?? false;
+    this.delivery = options.delivery ?? "broadcast";
+    this.seed = options.seed;
+    this.random = createRandom(this.seed);
+    this.faultRandom = this.random;
+    this.maxLength = options.maxLength;
+    this.maxBytes = options.maxBytes;
+    this.overflow = options.overflow ?? "drop-head";
+    this.maxPriority = options.maxPriority;
+    this.atLeastOnce = options.atLeastOnce;
   }
 
   getQueue(): {
     name: string;
     sentMessages: Message<T>[];
     receivedMessages: Message<T>[];
-    handlers: Map<string | undefined, MessageHandler<T>[]>;
+    rejectedMessages: Message<T>[];
+    invalidMessages: InvalidMessage<T>[];
+    scheduledMessages: Message<T>[];
+    deliveries: Delivery[];
+    droppedMessages: Message<T>[];
+    blockedMessages: Message<T>[];
+    duplicateDeliveries: DuplicateDelivery<T>[];
+    handlers: Map<MessageSelector<T> | undefined, MessageHandler<T>[]>;
+    deadLetterQueue: MessageQueue | undefined;
   } {
     return {
       name: this.name,
       sentMessages: [...this.sentMessages],
       receivedMessages: [...this.receivedMessages],
-      handlers: new Map(this.handlers),
+      rejectedMessages: [...this.rejectedMessages],
+      invalidMessages: [...this.invalidMessages],
+      scheduledMessages: [...this.scheduledMessages],
+      deliveries: [...this.deliveries],
+      droppedMessages: [...this.droppedMessages],
+      blockedMessages: this.blockedMessages.map(({ message }) => message),
+      duplicateDeliveries: [...this.duplicateDeliveries],
+      handlers: new Map(
+        Array.from(this.subscriptions, ([selector, subscriptions]) => [
+          selector,
+          subscriptions.map(({ handler }) => handler),
+        ]),
+      ),
+      deadLetterQueue: this.deadLetterQueue,
     };
   }
 
+  /**
+   * Cancels scheduled deliveries and expirations and resets all messages,
+   * handlers and injected faults, and reconnects the queue. Event listeners
+   * registered with `on` are kept. Confirms of delayed and blocked messages
+   * reject.
+   */
   clear(): void {
+    const confirms = [
+      ...this.scheduledConfirms.values(),
+      ...this.blockedMessages.map(({ onConfirm }) => onConfirm),
+    ];
+    this.scheduledConfirms.clear();
+    this.blockedMessages = [];
+    confirms.forEach((onConfirm) =>
+      onConfirm?.(
+        new Error(`Publish to queue "${this.name}" failed: queue was cleared`),
+      ),
+    );
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.scheduledMessages = [];
     this.sentMessages = [];
     this.receivedMessages = [];
-    this.handlers.clear();
+    this.rejectedMessages = [];
+    this.invalidMessages = [];
+    this.deliveryCounts.clear();
+    this.subscriptions.clear();
+    this.deliveries = [];
+    this.roundRobinCount = 0;
+    this.subscriptionCount = 0;
     this.messageCount = 0;
     this.pendingHandlers.clear();
     this.handlerErrors = [];
+    this.sequentialDispatch = this.createSequentialDispatch();
+    this.faults = {};
+    // Seeded picks and faults start over, as on a fresh queue.
+    this.random = createRandom(this.seed);
+    this.faultRandom = this.random;
+    this.droppedMessages = [];
+    this.connected = true;
+    this.pausedMessages = [];
+    this.duplicateDeliveries = [];
+    this.firstDeliveries.clear();
+    this.duplicatesDone = Promise.resolve();
   }
 
-  private async processHandlers(messageWithId: Message<T>): Promise<void> {
-    const typedHandlers = this.handlers.get(messageWithId.type) || [];
-    const defaultHandlers =
-      messageWithId.type === undefined
-        ? []
-        : this.handlers.get(undefined) || [];
-    const handlers = [...typedHandlers, ...defaultHandlers];
-
-    const processing = Promise.all(
-      handlers.map((handler) =>
-        Promise.resolve()
-          .then(() => handler(messageWithId))
-          .catch((error) => {
-            this.handlerErrors.push(
-              error instanceof Error ? error : new Error(String(error)),
-            );
+  /**
+   * Injects broker faults into upcoming publishes, replacing the faults
+   * injected before. Pass `{}` to stop injecting faults.
+   */
+  injectFaults(faults: FaultOptions): void {
+    const { failPublishes, latency, dropRate, duplicateRate, seed } = faults;
+    if (
+      failPublishes !== undefined &&
+      (!Number.isInteger(failPublishes) || failPublishes < 0)
+    ) {
+      throw new Error("failPublishes must be a non-negative integer");
+    }
+    const [minLatency, maxLatency] =
+      typeof latency === "object"
+        ? [latency.min, latency.max]
+        : [latency, latency];
+    if (
+      latency !== undefined &&
+      !(minLatency >= 0 && maxLatency >= minLatency)
+    ) {
+      throw new Error("latency must be a non-negative number or range");
+    }
+    for (const [name, rate] of Object.entries({ dropRate, duplicateRate })) {
+      if (rate !== undefined && !(rate >= 0 && rate <= 1)) {
+        throw new Error(`${name} must be between 0 and 1`);
+      }
+    }
+    this.faults = { ...faults };
+    this.faultRandom = seed === undefined ? this.random : createRandom(seed);
+  }
+
+  private chance(rate: number | undefined): boolean {
+    return rate !== undefined && rate > 0 && this.faultRandom() < rate;
+  }
+
+  private injectedLatency(): number {
+    const { latency = 0 } = this.faults;
+    if (typeof latency === "number") {
+      return latency;
+    }
+    return latency.min + this.faultRandom() * (latency.max - latency.min);
+  }
+
+  /**
+   * Simulates a lost broker connection: published messages are still
+   * enqueued, but are not dispatched to handlers until `reconnect`.
+   * `receiveMessage` is not affected.
+   */
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  /**
+   * Restores the connection and dispatches the messages published while
+   * disconnected that are still pending, in queue order.
+   */
+  reconnect(): void {
+    this.connected = true;
+    const paused = new Set(this.pausedMessages.map((message) => message.id));
+    this.pausedMessages = [];
+    for (const message of this.sentMessages.filter((m) => paused.has(m.id))) {
+      void this.processHandlers(message);
+    }
+  }
+
+  /**
+   * Dispatches a message to the matching subscriptions.
+   *
+   * @returns A promise settling once the handlers and any duplicate
+   * deliveries settled.
+   */
+  private async processHandlers(
+    messageWithId: Message<T>,
+    duplicate = false,
+  ): Promise<void> {
+    if (!this.connected) {
+      this.pausedMessages.push(messageWithId);
+      return;
+    }
+    const selected: Subscription<T>[] = [];
+    for (const [selector, subscriptions] of this.subscriptions) {
+      try {
+        if (
+          selector !== undefined &&
+          matchesSelector(selector, messageWithId)
+        ) {
+          selected.push(...subscriptions);
+        }
+      } catch (error) {
+        this.handlerErrors.push(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+    const consumers = this.pickConsumers([
+      ...selected,
+      ...(this.subscriptions.get(undefined) || []),
+    ]);
+    return this.dispatchToConsumers(messageWithId, consumers, duplicate);
+  }
+
+  /**
+   * Runs the handlers of the given subscriptions for a message, tracked by
+   * `settle` and `flush`.
+   */
+  private dispatchToConsumers(
+    messageWithId: Message<T>,
+    consumers: Subscription<T>[],
+    duplicate: boolean,
+  ): Promise<void> {
+    if (consumers.length > 0) {
+      this.countDelivery(messageWithId);
+    }
+
+    const dispatch = () =>
+      Promise.all(
+        consumers.map((consumer) =>
+          this.track(consumer, messageWithId).catch((error) => {
+            const handlerError =
+              error instanceof Error ? error : new Error(String(error));
+            // Errors of messages no longer pending are not dead-lettered.
+            if (
+              !this.deadLetterQueue ||
+              !this.reject(messageWithId, "handler-error", handlerError)
+            ) {
+              this.handlerErrors.push(handlerError);
+            }
           }),
-      ),
-    ).then(() => undefined);
+        ),
+      ).then(() => undefined);
+    let processing = this.sequential
+      ? this.sequentialDispatch({ message: messageWithId, dispatch })
+      : dispatch();
+    if (!duplicate) {
+      const firstDelivery = processing;
+      this.firstDeliveries.add(firstDelivery);
+      firstDelivery.finally(() => this.firstDeliveries.delete(firstDelivery));
+      if (consumers.length > 0 && this.isDuplicated(messageWithId)) {
+        processing = processing.then(() => this.queueDuplicates(messageWithId));
+      }
+    }
 
     this.pendingHandlers.add(processing);
     processing.finally(() => this.pendingHandlers.delete(processing));
+    return processing;
+  }
+
+  private isDuplicated(message: Message<T>): boolean {
+    if (!this.atLeastOnce) {
+      return false;
+    }
+    const { selector } = this.atLeastOnce;
+    try {
+      return (
+        selector === undefined ||
+        matchesSelector(selector as MessageSelector<T>, message)
+      );
+    } catch (error) {
+      this.handlerErrors.push(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Delivers the duplicates of a message once no first delivery runs, so the
+   * snapshots only differ by what the duplicates did.
+   */
+  private queueDuplicates(message: Message<T>): Promise<void> {
+    this.duplicatesDone = this.duplicatesDone.then(async () => {
+      while (this.firstDeliveries.size > 0) {
+        await Promise.allSettled(Array.from(this.firstDeliveries));
+      }
+      await this.deliverDuplicates(message);
+    });
+    return this.duplicatesDone;
+  }
+
+  /**
+   * Hands a message its handlers settled to them again, as an at-least-once
+   * broker would after a lost acknowledgement, taking snapshots in between.
+   */
+  private async deliverDuplicates(message: Message<T>): Promise<void> {
+    const { times = 1, snapshot } = this.atLeastOnce!;
+    try {
+      const duplicate: DuplicateDelivery<T> = { message };
+      const afterDuplicates: unknown[] = [];
+      if (snapshot) {
+        duplicate.afterFirst = structuredClone(snapshot());
+        duplicate.afterDuplicates = afterDuplicates;
+      }
+      for (let count = 0; count < times; count++) {
+        await this.processHandlers(redeliver(message), true);
+        if (snapshot) {
+          afterDuplicates.push(structuredClone(snapshot()));
+        }
+      }
+      this.duplicateDeliveries.push(duplicate);
+    } catch (error) {
+      this.handlerErrors.push(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  private createSequentialDispatch() {
+    return limitConcurrency(
+      ({ dispatch }: { message: Message<T>; dispatch: () => Promise<void> }) =>
+        dispatch(),
+      1,
+      ({ message }) => this.priorityOf(message),
+    );
+  }
+
+  /**
+   * The priority the queue gives the message: 0 unless it is a priority
+   * queue.
+   */
+  private priorityOf(message: Message<T>): number {
+    if (this.maxPriority === undefined) {
+      return 0;
+    }
+    return Math.min(
+      getMetadata(message).properties?.priority ?? 0,
+      this.maxPriority,
+    );
+  }
+
+  /**
+   * Narrows the matching handlers to the one competing consumer chosen by the
+   * delivery mode. Broadcast delivery keeps them all.
+   */
+  private pickConsumers(consumers: Subscription<T>[]): Subscription<T>[] {
+    if (this.delivery === "broadcast" || consumers.length <= 1) {
+      return consumers;
+    }
+    switch (this.delivery) {
+      case "round-robin":
+        return [consumers[this.roundRobinCount++ % consumers.length]];
+      case "random":
+        return [consumers[Math.floor(this.random() * consumers.length)]];
+      case "least-busy":
+        // Ties go to the earliest subscription.
+        return [
+          consumers.reduce((leastBusy, consumer) =>
+            consumer.inFlight < leastBusy.inFlight ? consumer : leastBusy,
+          ),
+        ];
+    }
+  }
+
+  /**
+   * Calls a handler, recording the delivery and counting the call as in
+   * flight until it settles.
+   */
+  private async track(
+    consumer: Subscription<T>,
+    message: Message<T>,
+  ): Promise<void> {
+    this.deliveries.push({ id: message.id, consumerTag: consumer.consumerTag });
+    consumer.inFlight++;
+    try {
+      // Start the handler asynchronously, so publish never runs it inline.
+      await Promise.resolve();
+      this.emit("deliver", { message, consumerTag: consumer.consumerTag });
+      await consumer.run(message);
+    } finally {
+      consumer.inFlight--;
+    }
+  }
+
+  /**
+   * Publishes a message and dispatches it to matching handlers. Messages are
+   * validated against the schema registered for their `type` first. Message
+   * properties in the options are kept in the envelope metadata as
+   * `properties`.
+   *
+   * With `confirm`, the errors are reported through the returned promise
+   * instead, which resolves once the message was enqueued, after its delay or
+   * once a blocking queue has room for it, and rejects if the queue drops it.
+   *
+   * @returns The message id, assigned immediately even for delayed messages.
+   * @throws {Error} If the message fails its schema and `onInvalidMessage` is
+   * `throw`, if a publish failure was injected, or if the queue is full and
+   * drops the message.
+   */
+  publish(message: T, options?: PublishOptions & { confirm?: false }): number;
+  publish(
+    message: T,
+    options: PublishOptions & { confirm: true },
+  ): Promise<number>;
+  publish(
+    message: T,
+    { confirm, ...options }: PublishOptions & { confirm?: boolean } = {},
+  ): number | Promise<number> {
+    if (!confirm) {
+      this.failInjectedPublish();
+      return this.publishPrepared(this.preparePublish(message, options));
+    }
+    // Errors thrown by the executor reject the promise.
+    return new Promise((resolve, reject) => {
+      this.failInjectedPublish();
+      this.publishPrepared(this.preparePublish(message, options), (result) =>
+        result instanceof Error ? reject(result) : resolve(result),
+      );
+    });
+  }
+
+  private publishPrepared(
+    { message, metadata, delay, ttl, errors }: PreparedPublish<T>,
+    onConfirm?: (result: number | Error) => void,
+    faults = this.drawFaults(),
+  ): number {
+    if (errors.length > 0) {
+      this.invalidMessages.push({ message, errors });
+    }
+    return this.enqueue(message, metadata, { delay, ttl }, faults, onConfirm);
+  }
+
+  private drawFaults(): PublishFaults {
+    return {
+      lost: this.chance(this.faults.dropRate),
+      latency: this.injectedLatency(),
+      duplicated: this.chance(this.faults.duplicateRate),
+    };
+  }
+
+  private failInjectedPublish(): void {
+    if (this.faults.failPublishes) {
+      this.faults.failPublishes--;
+      throw new Error(
+        `Publish to queue "${this.name}" failed: injected publish failure`,
+      );
+    }
+  }
+
+  /**
+   * Validates a message and its options and splits off the envelope
+   * metadata, without enqueueing the message or recording it as invalid.
+   */
+  private preparePublish(
+    message: T,
+    options: PublishOptions,
+  ): PreparedPublish<T> {
+    const { valid, errors = [] } = this.validateMessage(message);
+    if (!valid && this.onInvalidMessage === "throw") {
+      throw new Error(
+        `Invalid message of type "${message.type}":\n  ${errors.join("\n  ")}`,
+      );
+    }
+    const { delay, ttl, exchange, routingKey, ...properties } = options;
+    if (delay !== undefined && !(delay >= 0)) {
+      throw new Error("delay must be a non-negative number");
+    }
+    if (ttl !== undefined && !(ttl >= 0)) {
+      throw new Error("ttl must be a non-negative number");
+    }
+    if (
+      properties.priority !== undefined &&
+      !(Number.isInteger(properties.priority) && properties.priority >= 0)
+    ) {
+      throw new Error("priority must be a non-negative integer");
+    }
+    const definedProperties = Object.fromEntries(
+      Object.entries(properties).filter(([, value]) => value !== undefined),
+    );
+    const metadata: EnvelopeMetadata =
+      Object.keys(definedProperties).length > 0
+        ? { properties: definedProperties }
+        : {};
+    if (exchange !== undefined) {
+      metadata.exchange = exchange;
+    }
+    if (routingKey !== undefined) {
+      metadata.routingKey = routingKey;
+    }
+    return {
+      message,
+      metadata,
+      delay,
+      ttl,
+      errors: valid ? [] : errors,
+    };
   }
 
-  publish(message: T): number {
-    const messageWithId: Message<T> = {
-      ...message,
-      type: message.type,
-      id: this.messageCount++,
+  /**
+   * Runs `work` with a transaction that buffers publishes and
+   * acknowledgements, and commits them all at once when `work` resolves. When
+   * `work` throws, nothing is published or acknowledged.
+   *
+   * Injected faults are drawn once per commit: the latency delays every
+   * message alike, a duplicate duplicates every message, and a lost message
+   * fails the commit. Once `work` settled, `tx` throws on use.
+   *
+   * @returns What `work` returned.
+   * @throws {Error} What `work` threw, or why the commit failed: an injected
+   * publish failure or lost message, or a message the full queue would
+   * reject. A failed commit leaves the queue unchanged.
+   */
+  async transaction<R>(
+    work: (tx: QueueTransaction<T>) => Promise<R> | R,
+  ): Promise<R> {
+    const publishes: PreparedPublish<T>[] = [];
+    const acks: Message<T>[] = [];
+    let settled = false;
+    const checkOpen = () => {
+      if (settled) {
+        throw new Error(
+          `Transaction on queue "${this.name}" was already committed or rolled back`,
+        );
+      }
     };
-    this.sentMessages.push(messageWithId);
-    void this.processHandlers(messageWithId);
+    let result: R;
+    try {
+      result = await work({
+        publish: (message, options = {}) => {
+          checkOpen();
+          publishes.push(this.preparePublish(message, options));
+        },
+        ack: (message) => {
+          checkOpen();
+          acks.push(message);
+        },
+      });
+    } finally {
+      settled = true;
+    }
+
+    let faults: PublishFaults | undefined;
+    if (publishes.length > 0) {
+      this.failInjectedPublish();
+      faults = this.drawFaults();
+      if (faults.lost) {
+        throw new Error(
+          `Publish to queue "${this.name}" failed: messages were lost`,
+        );
+      }
+    }
+    this.checkCapacity(publishes, acks);
+    acks.forEach((message) => this.ack(message));
+    publishes.forEach((prepared) =>
+      this.publishPrepared(prepared, undefined, faults),
+    );
+    return result;
+  }
+
+  /**
+   * Throws if the queue would reject one of the messages after the given
+   * acknowledgements, so a commit fails before it changed anything.
+   */
+  private checkCapacity(
+    publishes: PreparedPublish<T>[],
+    acks: Message<T>[],
+  ): void {
+    const acked = new Set(acks.map((message) => message.id));
+    const pending = this.sentMessages.filter((m) => !acked.has(m.id));
+    for (const { message, metadata, delay } of publishes) {
+      const candidate = createMessage(message, metadata, -1);
+      const rejected =
+        this.overflow === "reject-publish" && !delay
+          ? !this.fits(candidate, pending)
+          : !this.fits(candidate, []);
+      if (rejected) {
+        throw this.queueFullError();
+      }
+      if (!delay) {
+        pending.push(candidate);
+      }
+    }
+  }
+
+  private queueFullError(): Error {
+    return new Error(`Publish to queue "${this.name}" rejected: queue is full`);
+  }
+
+  /**
+   * Validates the payload of a message against the schema registered for its
+   * `type`. Messages without a registered schema are valid.
+   */
+  validateMessage(message: T | Message<T>): ValidationResult {
+    const schema =
+      message.type === undefined ? undefined : this.schemas[message.type];
+    if (!schema) {
+      return { valid: true, errors: [] };
+    }
+    return validatePayload(schema, toPayload(message as Message<T>));
+  }
+
+  /**
+   * Assigns the message its id and delivers it, after its delay. Messages from
+   * `publish` are subject to the drawn faults, and throw when the queue is full
+   * and drops them right away. `onConfirm` receives the id once the message
+   * was enqueued, or the error if it was dropped later. A duplicate keeps the
+   * id and is flagged as `redelivered`.
+   */
+  private enqueue(
+    message: T,
+    metadata: EnvelopeMetadata,
+    { delay = 0, ttl }: Pick<PublishOptions, "delay" | "ttl"> = {},
+    faults?: PublishFaults,
+    onConfirm?: (result: number | Error) => void,
+  ): number {
+    const messageWithId = createMessage(message, metadata, this.messageCount++);
+
+    if (faults) {
+      if (faults.lost) {
+        this.droppedMessages.push(messageWithId);
+        onConfirm?.(
+          new Error(`Publish to queue "${this.name}" failed: message was lost`),
+        );
+        return messageWithId.id;
+      }
+      delay += faults.latency;
+    }
+    if (!this.deliverAfter(messageWithId, delay, ttl, onConfirm) && faults) {
+      throw this.queueFullError();
+    }
+    if (faults?.duplicated) {
+      // The broker delivers the message again, as after a lost acknowledgement.
+      this.deliverAfter(redeliver(messageWithId), delay, ttl);
+    }
     return messageWithId.id;
   }
 
-  receiveMessage(messageType?: string, autoAck = true): Message<T> | undefined {
-    const messageIndex = messageType
-      ? this.sentMessages.findIndex((m) => m.type === messageType)
+  /**
+   * Delivers the message once the delay passed. `onConfirm` receives the error
+   * if the queue drops it after the delay.
+   *
+   * @returns `false` if the queue dropped the message right away.
+   */
+  private deliverAfter(
+    message: Message<T>,
+    delay: number,
+    ttl: number | undefined,
+    onConfirm?: (result: number | Error) => void,
+  ): boolean {
+    if (delay <= 0) {
+      return this.deliver(message, ttl, onConfirm);
+    }
+    this.scheduledMessages.push(message);
+    if (onConfirm) {
+      this.scheduledConfirms.set(message, onConfirm);
+    }
+    this.schedule(() => {
+      this.scheduledMessages = this.scheduledMessages.filter(
+        (m) => m !== message,
+      );
+      this.scheduledConfirms.delete(message);
+      if (!this.deliver(message, ttl, onConfirm)) {
+        onConfirm?.(this.queueFullError());
+      }
+    }, delay);
+    return true;
+  }
+
+  /**
+   * Tells whether the message fits into the queue next to the given pending
+   * messages.
+   */
+  private fits(message: Message<T>, pending = this.sentMessages): boolean {
+    return (
+      (this.maxLength === undefined || pending.length < this.maxLength) &&
+      (this.maxBytes === undefined ||
+        pending.reduce(
+          (bytes, m) => bytes + messageSize(m),
+          messageSize(message),
+        ) <= this.maxBytes)
+    );
+  }
+
+  /**
+   * Applies the overflow policy and enqueues the message if it may, confirming
+   * it once it is enqueued.
+   *
+   * @returns `false` if the message was dropped.
+   */
+  private deliver(
+    message: Message<T>,
+    ttl: number | undefined,
+    onConfirm?: (result: number | Error) => void,
+  ): boolean {
+    if (!this.fits(message, [])) {
+      // The message would not fit even into an empty queue.
+      this.droppedMessages.push(message);
+      return false;
+    }
+    if (this.overflow === "block") {
+      if (this.blockedMessages.length > 0 || !this.fits(message)) {
+        this.blockedMessages.push({ message, ttl, onConfirm });
+        return true;
+      }
+    } else if (this.overflow === "reject-publish") {
+      if (!this.fits(message)) {
+        this.droppedMessages.push(message);
+        return false;
+      }
+    } else {
+      while (!this.fits(message)) {
+        const [head] = this.sentMessages.splice(0, 1);
+        this.droppedMessages.push(head);
+        this.rejectedMessages.push(head);
+        this.deadLetter(head, "max-length");
+      }
+    }
+    this.admit(message, ttl);
+    onConfirm?.(message.id);
+    return true;
+  }
+
+  /**
+   * Enqueues the messages held back by the `block` policy, in order, while
+   * they fit.
+   */
+  private releaseBlocked(): void {
+    while (
+      this.blockedMessages.length > 0 &&
+      this.fits(this.blockedMessages[0].message)
+    ) {
+      const { message, ttl, onConfirm } = this.blockedMessages.shift()!;
+      this.admit(message, ttl);
+      onConfirm?.(message.id);
+    }
+  }
+
+  private admit(message: Message<T>, ttl: number | undefined): void {
+    // Behind every message of the same or a higher priority.
+    const priority = this.priorityOf(message);
+    const index = this.sentMessages.findIndex(
+      (m) => this.priorityOf(m) < priority,
+    );
+    this.sentMessages.splice(
+      index === -1 ? this.sentMessages.length : index,
+      0,
+      message,
+    );
+    if (ttl !== undefined) {
+      // Like a broker, only expire messages that were not delivered yet.
+      this.schedule(() => {
+        if (this.getDeliveryCount(message) === 0) {
+          this.reject(message, "expired");
+        }
+      }, ttl);
+    }
+    void this.processHandlers(message);
+    this.emit("publish", message);
+  }
+
+  private schedule(callback: () => void, ms: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, ms);
+    // Pending expirations should not keep the test process alive.
+    timer.unref?.();
+    this.timers.add(timer);
+  }
+
+  /**
+   * Registers a listener for queue events. Listeners run synchronously and
+   * survive `clear()`. A throwing listener does not fail the operation that
+   * emitted the event; `flush` rethrows its error.
+   *
+   * @returns A function that removes the listener.
+   */
+  on<E extends keyof QueueEvents<T>>(
+    event: E,
+    listener: (payload: QueueEvents<T>[E]) => void,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    this.listeners.set(event, listeners);
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  private emit<E extends keyof QueueEvents<T>>(
+    event: E,
+    payload: QueueEvents<T>[E],
+  ): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as (p: typeof payload) => void)(payload);
+      } catch (error) {
+        this.handlerErrors.push(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    });
+  }
+
+  /**
+   * Returns the first pending message matching the selector, or the first
+   * pending message when no selector is given. With `autoAck` the message is
+   * acknowledged right away; otherwise it stays pending until `ack` or `nack`.
+   */
+  receiveMessage(
+    selector?: MessageSelector<T>,
+    autoAck = true,
+  ): Message<T> | undefined {
+    const messageIndex = selector
+      ? this.sentMessages.findIndex((m) => matchesSelector(selector, m))
       : this.sentMessages.length > 0
         ? 0
         : -1;
@@ -105,53 +1373,228 @@ export class MessageQueue<T extends MessagePayload = MessagePayload> {
     }
 
     const message = this.sentMessages[messageIndex];
+    this.countDelivery(message);
+    this.emit("deliver", { message });
 
     if (autoAck) {
       this.sentMessages.splice(messageIndex, 1);
       this.receivedMessages.push(message);
+      this.emit("ack", message);
+      this.releaseBlocked();
     }
 
     return message;
   }
 
+  /**
+   * Index of a pending message: of the message itself, or else of the first
+   * one with its id, since requeueing and duplicates copy messages.
+   */
+  private pendingIndex(message: Message<T>): number {
+    const index = this.sentMessages.indexOf(message);
+    return index !== -1
+      ? index
+      : this.sentMessages.findIndex((m) => m.id === message.id);
+  }
+
   ack(message: Message<T>): void {
-    const messageIndex = this.sentMessages.findIndex(
-      (m) => m.id === message.id,
-    );
+    const messageIndex = this.pendingIndex(message);
     if (messageIndex === -1) {
       return;
     }
     const [ackedMessage] = this.sentMessages.splice(messageIndex, 1);
     this.receivedMessages.push(ackedMessage);
+    this.emit("ack", ackedMessage);
+    this.releaseBlocked();
   }
 
+  /**
+   * Negatively acknowledges a pending message. Requeued messages stay in place,
+   * are flagged as `redelivered` and are dispatched to handlers again; the rest
+   * are rejected and dead-lettered.
+   */
+  nack(message: Message<T>, { requeue = true }: NackOptions = {}): void {
+    const messageIndex = this.pendingIndex(message);
+    if (messageIndex === -1) {
+      return;
+    }
+    const withinLimit =
+      this.maxDeliveries === undefined ||
+      this.getDeliveryCount(message) < this.maxDeliveries;
+
+    if (requeue && withinLimit) {
+      const redelivered = redeliver(this.sentMessages[messageIndex]);
+      this.sentMessages[messageIndex] = redelivered;
+      void this.processHandlers(redelivered);
+      return;
+    }
+
+    this.reject(message, requeue ? "delivery-limit" : "rejected");
+  }
+
+  /**
+   * Moves a pending message to `rejectedMessages` and, when configured, to the
+   * dead-letter queue.
+   *
+   * @returns Whether the message was still pending.
+   */
+  private reject(
+    message: Message<T>,
+    reason: DeadLetterReason,
+    error?: Error,
+  ): boolean {
+    const messageIndex = this.pendingIndex(message);
+    if (messageIndex === -1) {
+      return false;
+    }
+    const [rejectedMessage] = this.sentMessages.splice(messageIndex, 1);
+    this.rejectedMessages.push(rejectedMessage);
+    this.deadLetter(rejectedMessage, reason, error);
+    this.releaseBlocked();
+    return true;
+  }
+
+  /** Moves a copy of the message to the dead-letter queue, if configured. */
+  private deadLetter(
+    message: Message<T>,
+    reason: DeadLetterReason,
+    error?: Error,
+  ): void {
+    const deadLetter: DeadLetter = { reason, queue: this.name, id: message.id };
+    if (error) {
+      deadLetter.error = error;
+    }
+    const { properties } = getMetadata(message);
+    this.deadLetterQueue?.enqueue(
+      toPayload(message),
+      properties ? { deadLetter, properties } : { deadLetter },
+    );
+  }
+
+  /**
+   * Returns how many times the message was handed out, either by
+   * `receiveMessage` or by a dispatch to subscribed handlers.
+   */
+  getDeliveryCount(message: Message<T>): number {
+    return this.deliveryCounts.get(message.id) ?? 0;
+  }
+
+  private countDelivery(message: Message<T>): void {
+    this.deliveryCounts.set(message.id, this.getDeliveryCount(message) + 1);
+  }
+
+  /**
+   * Registers a handler for messages matching the selector, or for every
+   * message when the selector is `undefined`. RegExp and predicate selectors
+   * are matched by reference when unsubscribing.
+   */
   subscribe(
-    messageType: string | undefined,
+    selector: MessageSelector<T> | undefined,
     handler: MessageHandler<T>,
+    {
+      prefetch = this.prefetch,
+      consumerTag = `consumer-${this.subscriptionCount}`,
+    }: SubscribeOptions = {},
   ): () => void {
-    if (!this.handlers.has(messageType)) {
-      this.handlers.set(messageType, []);
+    validatePrefetch(prefetch);
+    this.subscriptionCount++;
+    const observedHandler: MessageHandler<T> = (message) =>
+      this.runHandler(handler, message, consumerTag);
+    const subscription: Subscription<T> = {
+      handler,
+      run:
+        prefetch === undefined
+          ? observedHandler
+          : limitConcurrency(observedHandler, prefetch, (message) =>
+              this.priorityOf(message),
+            ),
+      consumerTag,
+      inFlight: 0,
+    };
+    if (!this.subscriptions.has(selector)) {
+      this.subscriptions.set(selector, []);
     }
-    this.handlers.get(messageType)?.push(handler);
+    this.subscriptions.get(selector)!.push(subscription);
 
-    return () => this.offMessage(messageType, handler);
+    return () => this.offMessage(selector, subscription);
   }
 
-  private offMessage(
-    messageType: string | undefined,
+  /**
+   * Calls a subscribed handler within its handler context, emitting its
+   * start and outcome.
+   */
+  private runHandler(
     handler: MessageHandler<T>,
+    message: Message<T>,
+    consumerTag: string,
+  ): Promise<void> {
+    const context = { queue: this.name, messageId: message.id, consumerTag };
+    return handlerContext.run(context, async () => {
+      this.emit("handlerStart", { message, consumerTag });
+      try {
+        await handler(message);
+      } catch (error) {
+        this.emit("handlerError", {
+          message,
+          consumerTag,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        throw error;
+      }
+      this.emit("handlerEnd", { message, consumerTag });
+    });
+  }
+
+  private offMessage(
+    selector: MessageSelector<T> | undefined,
+    subscription: Subscription<T>,
   ): void {
-    if (this.handlers.has(messageType)) {
-      const handlersForType = this.handlers.get(messageType)!;
-      this.handlers.set(
-        messageType,
-        handlersForType.filter((h) => h !== handler),
+    if (this.subscriptions.has(selector)) {
+      this.subscriptions.set(
+        selector,
+        this.subscriptions.get(selector)!.filter((s) => s !== subscription),
       );
     }
   }
 
+  /**
+   * Hands a pending message to the subscription with the given consumer tag
+   * alone, as a broker pushes a message to one consumer. The handler runs
+   * like any dispatched one: `flush` waits for it and surfaces its errors.
+   * Messages no longer pending are not dispatched.
+   *
+   * @throws {Error} If no subscription has the consumer tag.
+   */
+  dispatchTo(message: Message<T>, consumerTag: string): Promise<void> {
+    const subscription = Array.from(this.subscriptions.values())
+      .flat()
+      .find((candidate) => candidate.consumerTag === consumerTag);
+    if (!subscription) {
+      throw new Error(`Unknown consumer tag: ${consumerTag}`);
+    }
+    const pending = this.sentMessages.find((m) => m.id === message.id);
+    if (!pending) {
+      return Promise.resolve();
+    }
+    if (!this.connected) {
+      this.pausedMessages.push(pending);
+      return Promise.resolve();
+    }
+    return this.dispatchToConsumers(pending, [subscription], false);
+  }
+
+  /**
+   * Waits until no handler is running, without surfacing handler errors.
+   */
+  async settle(): Promise<void> {
+    // Handlers can requeue messages, which schedules further dispatches.
+    while (this.pendingHandlers.size > 0) {
+      await Promise.all(Array.from(this.pendingHandlers));
+    }
+  }
+
   async flush(): Promise<void> {
-    await Promise.all(Array.from(this.pendingHandlers));
+    await this.settle();
     if (this.handlerErrors.length > 0) {
       const errors = this.handlerErrors;
       this.handlerErrors = [];
@@ -0,0 +1,18 @@
+/**
+ * Returns a seeded pseudo-random number generator (mulberry32) producing
+ * numbers in [0, 1), so "random" test behavior is reproducible. Without a
+ * seed it falls back to `Math.random`.
+ */
+export const createRandom = (seed?: number): (() => number) => {
+  if (seed === undefined) {
+    return Math.random;
+  }
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
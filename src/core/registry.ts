@@ -0,0 +1,92 @@
+import { stringify } from "jest-matcher-utils";
+import {
+  MessageQueue,
+  type MessagePayload,
+  type MessageQueueOptions,
+} from "./queue";
+
+export type QueueChecks = {
+  /** Fail on handler errors no `flush` surfaced. Defaults to `true`. */
+  handlerErrors?: boolean;
+  /**
+   * Fail on messages delivered to a handler or `receiveMessage` but neither
+   * acked nor nacked. Messages nobody received yet do not count. Defaults to
+   * `true`.
+   */
+  unacknowledged?: boolean;
+};
+
+const queues: Map<string, MessageQueue> = new Map();
+
+/**
+ * Returns the shared queue with the given name, creating it on first use.
+ * The options only apply when the queue is created.
+ */
+export const getQueue = <T extends MessagePayload = MessagePayload>(
+  name: string,
+  options?: MessageQueueOptions,
+): MessageQueue<T> => {
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new MessageQueue(name, options);
+    queues.set(name, queue);
+  }
+  return queue as unknown as MessageQueue<T>;
+};
+
+/**
+ * Shares an existing queue under its name, replacing a queue of the same name,
+ * so `getQueue` returns it and `verifyQueues` checks it.
+ */
+export const registerQueue = <T extends MessagePayload = MessagePayload>(
+  queue: MessageQueue<T>,
+): void => {
+  queues.set(queue.name, queue as unknown as MessageQueue);
+};
+
+/** Clears every queue created through `getQueue` or registered. */
+export const clearQueues = (): void => {
+  queues.forEach((queue) => queue.clear());
+};
+
+/**
+ * Waits for the handlers of every queue created through `getQueue`, then
+ * clears the queues. Meant for `afterEach`, like the `jest-mq/setup` preset.
+ *
+ * @throws {Error} If a check failed, listing every problem per queue.
+ */
+export const verifyQueues = async ({
+  handlerErrors = true,
+  unacknowledged = true,
+}: QueueChecks = {}): Promise<void> => {
+  const problems: string[] = [];
+  try {
+    for (const queue of queues.values()) {
+      try {
+        await queue.flush();
+      } catch (error) {
+        if (handlerErrors) {
+          const messages = (error as AggregateError).errors.map(
+            (handlerError: Error) => handlerError.message,
+          );
+          problems.push(
+            `Queue "${queue.name}" has handler errors that were never awaited with flush():\n  ${messages.join("\n  ")}`,
+          );
+        }
+      }
+      const unacked = queue
+        .getQueue()
+        .sentMessages.filter((message) => queue.getDeliveryCount(message) > 0);
+      if (unacknowledged && unacked.length > 0) {
+        problems.push(
+          `Queue "${queue.name}" has unacknowledged messages:\n  ${unacked.map((message) => stringify(message)).join("\n  ")}`,
+        );
+      }
+    }
+  } finally {
+    clearQueues();
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join("\n"));
+  }
+};
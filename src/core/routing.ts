@@ -0,0 +1,28 @@
+const matchWords = (pattern: string[], words: string[]): boolean => {
+  if (pattern.length === 0) {
+    return words.length === 0;
+  }
+  const [head, ...rest] = pattern;
+  if (head === "#") {
+    return (
+      matchWords(rest, words) ||
+      (words.length > 0 && matchWords(pattern, words.slice(1)))
+    );
+  }
+  if (words.length === 0) {
+    return false;
+  }
+  return (
+    (head === "*" || head === words[0]) && matchWords(rest, words.slice(1))
+  );
+};
+
+/**
+ * Matches a dot-separated routing key against an AMQP topic pattern, where `*`
+ * stands for exactly one word and `#` for zero or more words.
+ *
+ * @example matchesTopic("order.*.eu", "order.created.eu") // true
+ * @example matchesTopic("order.#", "order") // true
+ */
+export const matchesTopic = (pattern: string, routingKey: string): boolean =>
+  matchWords(pattern.split("."), routingKey.split("."));
@@ -0,0 +1,122 @@
+import {
+  Message,
+  MessageQueue,
+  getMetadata,
+  type MessagePayload,
+  type MessageSelector,
+} from "./queue";
+import { getQueue } from "./registry";
+
+export type RequestOptions = {
+  /** Milliseconds to wait for the reply. Defaults to 3000 ms. */
+  timeout?: number;
+  /**
+   * Queue the reply is published to. `respond` finds it by name while the
+   * request waits, ahead of a shared queue of the same name. Defaults to the
+   * shared queue named after the request queue with a `.reply` suffix.
+   */
+  replyQueue?: MessageQueue;
+  /** Correlates the reply with the request. Generated when omitted. */
+  correlationId?: string;
+  headers?: Record<string, unknown>;
+};
+export type RequestHandler<
+  T extends MessagePayload = MessagePayload,
+  R extends MessagePayload = MessagePayload,
+> = (message: Message<T>) => R | Promise<R>;
+
+let correlationCount = 0;
+/** Reply queues of the requests still waiting, in the order they were sent. */
+const replyQueues: MessageQueue[] = [];
+
+/**
+ * Publishes a request with `replyTo` and `correlationId` set and waits for the
+ * reply with the same correlation id. The reply is acknowledged on arrival.
+ *
+ * @template T - The type of the request.
+ * @template R - The type of the reply.
+ * @param {MessageQueue<T>} queue - The queue the request is published to.
+ * @param {T} message - The request.
+ * @param {RequestOptions} [options] - Timeout, reply queue and properties.
+ * @returns {Promise<Message<R>>} A promise that resolves with the reply.
+ * @throws {Error} If no reply arrives within the timeout.
+ */
+export async function request<
+  T extends MessagePayload = MessagePayload,
+  R extends MessagePayload = MessagePayload,
+>(
+  queue: MessageQueue<T>,
+  message: T,
+  {
+    timeout = 3000,
+    replyQueue = getQueue(`${queue.name}.reply`),
+    correlationId = String(correlationCount++),
+    headers,
+  }: RequestOptions = {},
+): Promise<Message<R>> {
+  replyQueues.push(replyQueue);
+
+  return new Promise<Message<R>>((resolve, reject) => {
+    const unsubscribe = replyQueue.on("publish", (reply) => {
+      if (getMetadata(reply).properties?.correlationId === correlationId) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        replyQueue.ack(reply);
+        resolve(reply as Message<R>);
+      }
+    });
+    const timeoutId = setTimeout(() => {
+      unsubscribe();
+      reject(
+        new Error(
+          `Timeout waiting for reply to message type: ${message.type} (correlationId: ${correlationId}) on queue "${replyQueue.name}"`,
+        ),
+      );
+    }, timeout);
+
+    try {
+      queue.publish(message, {
+        correlationId,
+        replyTo: replyQueue.name,
+        headers,
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      reject(error);
+    }
+  }).finally(() => {
+    replyQueues.splice(replyQueues.indexOf(replyQueue), 1);
+  });
+}
+
+/**
+ * Subscribes a handler to requests on the queue. Its return value is published
+ * to the reply queue of a waiting `request` named by the request's `replyTo`,
+ * or else to the shared queue of that name, see `getQueue`, with
+ * the request's `correlationId`, and the request is acknowledged. Requests
+ * without `replyTo` are handled without a reply. Handler errors surface through
+ * `flush` like any handler error.
+ *
+ * @returns A function that stops responding.
+ */
+export function respond<
+  T extends MessagePayload = MessagePayload,
+  R extends MessagePayload = MessagePayload,
+>(
+  queue: MessageQueue<T>,
+  selector: MessageSelector<T>,
+  handler: RequestHandler<T, R>,
+): () => void {
+  return queue.subscribe(selector, async (message) => {
+    const reply = await handler(message);
+    const { replyTo, correlationId } = getMetadata(message).properties ?? {};
+    if (replyTo !== undefined) {
+      const replyQueue =
+        replyQueues.findLast(({ name }) => name === replyTo) ??
+        getQueue(replyTo);
+      replyQueue.publish(reply, { correlationId });
+    }
+    queue.ack(message);
+  });
+}
@@ -0,0 +1,199 @@
+import { isDeepStrictEqual } from "node:util";
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+/**
+ * The subset of JSON Schema understood by the built-in validator. Unknown
+ * keywords are ignored.
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+};
+export type ValidationResult = { valid: boolean; errors?: string[] };
+/**
+ * Adapter for any validation library. It may return a boolean or a
+ * `ValidationResult`, or throw; a thrown error counts as a failure.
+ */
+export type SchemaValidator = (payload: unknown) => boolean | ValidationResult;
+export type MessageSchema = JsonSchema | SchemaValidator;
+
+const matchesType = (type: JsonSchemaType, value: unknown): boolean => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Validates a value against a JSON Schema and returns one error per failed
+ * keyword, prefixed with the JSON path of the offending value.
+ */
+export const validateJsonSchema = (
+  schema: JsonSchema,
+  value: unknown,
+  path = "$",
+): string[] => {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [`${path} must be ${types.join(" or ")}`];
+    }
+  }
+
+  const errors: string[] = [];
+  if ("const" in schema && !isDeepStrictEqual(value, schema.const)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => isDeepStrictEqual(value, option))
+  ) {
+    errors.push(
+      `${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    );
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(items, item, `${path}[${index}]`)),
+      );
+    }
+  }
+  if (matchesType("object", value)) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(object, key)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(
+            propertySchema,
+            propertyValue,
+            `${path}.${key}`,
+          ),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            schema.additionalProperties,
+            propertyValue,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some(
+      (option) => validateJsonSchema(option, value, path).length === 0,
+    )
+  ) {
+    errors.push(`${path} must match at least one schema in anyOf`);
+  }
+  for (const option of schema.allOf ?? []) {
+    errors.push(...validateJsonSchema(option, value, path));
+  }
+  return errors;
+};
+
+/**
+ * Runs a JSON Schema or validator adapter and normalizes its outcome.
+ */
+export const validatePayload = (
+  schema: MessageSchema,
+  payload: unknown,
+): ValidationResult => {
+  if (typeof schema !== "function") {
+    const errors = validateJsonSchema(schema, payload);
+    return { valid: errors.length === 0, errors };
+  }
+  try {
+    const result = schema(payload);
+    if (typeof result === "boolean") {
+      return { valid: result, errors: result ? [] : ["$ failed validation"] };
+    }
+    return {
+      valid: result.valid,
+      errors: result.valid
+        ? []
+        : result.errors?.length
+          ? result.errors
+          : ["$ failed validation"],
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+};
@@ -0,0 +1,391 @@
+import type { MessagePayload } from "./queue";
+
+export type TopicRecord<T extends MessagePayload = MessagePayload> = {
+  topic: string;
+  partition: number;
+  offset: number;
+  key: string | undefined;
+  value: T;
+  /** Only present when the producer set headers. */
+  headers?: Record<string, unknown>;
+  /** Only present when the producer set a timestamp. */
+  timestamp?: number;
+};
+export type ProducerRecord<T extends MessagePayload = MessagePayload> = {
+  value: T;
+  /** Records with the same key always land on the same partition. */
+  key?: string;
+  /** Explicit partition, overriding key-based partitioning. */
+  partition?: number;
+  headers?: Record<string, unknown>;
+  /** Milliseconds since the epoch, as set by the producer. */
+  timestamp?: number;
+};
+export type TopicOptions = {
+  /** Number of partitions. Defaults to 1. */
+  partitions?: number;
+};
+export type ConsumerGroupOptions = {
+  /**
+   * Start partitions without a committed offset at the first record. When
+   * `false`, they start at the end of the log as it was when the group was
+   * created. Defaults to `true`.
+   */
+  fromBeginning?: boolean;
+};
+export type TopicPartitionOffset = { partition: number; offset: number };
+/**
+ * Payloads of the events emitted through `Topic.on`.
+ */
+export type TopicEvents<T extends MessagePayload = MessagePayload> = {
+  /** A record was appended. */
+  send: TopicRecord<T>;
+};
+
+/**
+ * Kafka's murmur2 hash, so keys are spread over partitions the same way the
+ * Java client and kafkajs' default partitioner do it.
+ */
+const murmur2 = (key: string): number => {
+  const data = Buffer.from(key);
+  const length = data.length;
+  const m = 0x5bd1e995;
+  let h = 0x9747b28c ^ length;
+
+  const tail = length & ~3;
+  for (let i = 0; i < tail; i += 4) {
+    let k =
+      data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+    k = Math.imul(k, m);
+    k ^= k >>> 24;
+    k = Math.imul(k, m);
+    h = Math.imul(h, m) ^ k;
+  }
+  switch (length % 4) {
+    case 3:
+      h ^= data[tail + 2] << 16;
+    // falls through
+    case 2:
+      h ^= data[tail + 1] << 8;
+    // falls through
+    case 1:
+      h ^= data[tail];
+      h = Math.imul(h, m);
+  }
+  h ^= h >>> 13;
+  h = Math.imul(h, m);
+  h ^= h >>> 15;
+  return h;
+};
+
+/**
+ * Kafka-style topic test double: an append-only log split into partitions,
+ * consumed through consumer groups that track offsets per partition.
+ */
+export class Topic<T extends MessagePayload = MessagePayload> {
+  private partitions: TopicRecord<T>[][];
+  private groups: Map<string, ConsumerGroup<T>> = new Map();
+  private nextPartition = 0;
+  private listeners: Map<
+    keyof TopicEvents<T>,
+    Set<(payload: TopicRecord<T>) => void>
+  > = new Map();
+
+  constructor(
+    public name: string,
+    { partitions = 1 }: TopicOptions = {},
+  ) {
+    if (!name) {
+      throw new Error("Topic name is required");
+    }
+    if (!Number.isInteger(partitions) || partitions < 1) {
+      throw new Error("Partition count must be a positive integer");
+    }
+    this.partitions = Array.from({ length: partitions }, () => []);
+  }
+
+  getTopic(): {
+    name: string;
+    partitions: TopicRecord<T>[][];
+  } {
+    return {
+      name: this.name,
+      partitions: this.partitions.map((records) => [...records]),
+    };
+  }
+
+  /**
+   * Appends a record. Keyed records are partitioned by key hash, keyless
+   * records round-robin over the partitions.
+   */
+  send({
+    value,
+    key,
+    partition,
+    headers,
+    timestamp,
+  }: ProducerRecord<T>): TopicPartitionOffset {
+    const target =
+      partition ??
+      (key === undefined
+        ? this.nextPartition++ % this.partitions.length
+        : (murmur2(key) & 0x7fffffff) % this.partitions.length);
+    const log = this.getPartition(target);
+    const record: TopicRecord<T> = {
+      topic: this.name,
+      partition: target,
+      offset: log.length,
+      key,
+      value,
+    };
+    if (headers !== undefined) {
+      record.headers = headers;
+    }
+    if (timestamp !== undefined) {
+      record.timestamp = timestamp;
+    }
+    log.push(record);
+    this.listeners.get("send")?.forEach((listener) => listener(record));
+    return { partition: target, offset: record.offset };
+  }
+
+  /**
+   * Registers a listener for topic events. Listeners run synchronously and
+   * survive `clear()`.
+   *
+   * @returns A function that removes the listener.
+   */
+  on<E extends keyof TopicEvents<T>>(
+    event: E,
+    listener: (payload: TopicEvents<T>[E]) => void,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    this.listeners.set(event, listeners);
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Returns the consumer group with the given id, creating it on first use.
+   */
+  consumerGroup(
+    groupId: string,
+    options: ConsumerGroupOptions = {},
+  ): ConsumerGroup<T> {
+    let group = this.groups.get(groupId);
+    if (!group) {
+      group = new ConsumerGroup(this, groupId, options);
+      this.groups.set(groupId, group);
+    }
+    return group;
+  }
+
+  /** Offset of the next record appended to each partition. */
+  endOffsets(): number[] {
+    return this.partitions.map((records) => records.length);
+  }
+
+  /** @internal */
+  read(partition: number, offset: number, maxRecords: number) {
+    return this.getPartition(partition).slice(offset, offset + maxRecords);
+  }
+
+  private getPartition(partition: number): TopicRecord<T>[] {
+    const log = this.partitions[partition];
+    if (!log) {
+      throw new Error(`Partition ${partition} does not exist`);
+    }
+    return log;
+  }
+
+  clear(): void {
+    this.partitions = this.partitions.map(() => []);
+    this.groups.clear();
+    this.nextPartition = 0;
+  }
+}
+
+/**
+ * Splits the topic partitions among its members round-robin, in join order.
+ * Every join or leave rebalances the group, which rewinds all partitions to
+ * their committed offsets.
+ */
+export class ConsumerGroup<T extends MessagePayload = MessagePayload> {
+  private members: TopicConsumer<T>[] = [];
+  private committed: number[];
+  private positions: number[];
+  private generation = 0;
+  private memberCount = 0;
+
+  constructor(
+    private topic: Topic<T>,
+    public groupId: string,
+    { fromBeginning = true }: ConsumerGroupOptions = {},
+  ) {
+    if (!groupId) {
+      throw new Error("Consumer group id is required");
+    }
+    this.committed = fromBeginning
+      ? topic.endOffsets().map(() => 0)
+      : topic.endOffsets();
+    this.positions = [...this.committed];
+  }
+
+  getGroup(): {
+    groupId: string;
+    generation: number;
+    members: { memberId: string; partitions: number[] }[];
+    committed: number[];
+  } {
+    return {
+      groupId: this.groupId,
+      generation: this.generation,
+      members: this.members.map((member) => ({
+        memberId: member.memberId,
+        partitions: member.assignment(),
+      })),
+      committed: [...this.committed],
+    };
+  }
+
+  join(memberId = `${this.groupId}-${++this.memberCount}`): TopicConsumer<T> {
+    if (this.members.some((member) => member.memberId === memberId)) {
+      throw new Error(`Member ${memberId} already joined ${this.groupId}`);
+    }
+    const member = new TopicConsumer(this, memberId);
+    this.members.push(member);
+    this.rebalance();
+    return member;
+  }
+
+  /** Records between the committed offset and the end of each partition. */
+  lag(): number[] {
+    return this.topic
+      .endOffsets()
+      .map((end, partition) => end - this.committed[partition]);
+  }
+
+  /** @internal */
+  leave(member: TopicConsumer<T>): void {
+    this.members = this.members.filter((m) => m !== member);
+    this.rebalance();
+  }
+
+  /** @internal */
+  assignmentOf(member: TopicConsumer<T>): number[] {
+    const index = this.members.indexOf(member);
+    if (index === -1) {
+      return [];
+    }
+    return this.positions
+      .map((_, partition) => partition)
+      .filter((partition) => partition % this.members.length === index);
+  }
+
+  /** @internal */
+  poll(member: TopicConsumer<T>, maxRecords: number): TopicRecord<T>[] {
+    const records: TopicRecord<T>[] = [];
+    for (const partition of this.assignmentOf(member)) {
+      const batch = this.topic.read(
+        partition,
+        this.positions[partition],
+        maxRecords - records.length,
+      );
+      this.positions[partition] += batch.length;
+      records.push(...batch);
+    }
+    return records;
+  }
+
+  /** @internal */
+  position(partition: number): number {
+    return this.positions[partition];
+  }
+
+  /** @internal */
+  seek(member: TopicConsumer<T>, { partition, offset }: TopicPartitionOffset) {
+    this.assertAssigned(member, partition);
+    const end = this.topic.endOffsets()[partition];
+    if (!Number.isInteger(offset) || offset < 0 || offset > end) {
+      throw new Error(
+        `Offset ${offset} is out of range for partition ${partition}`,
+      );
+    }
+    this.positions[partition] = offset;
+  }
+
+  /** @internal */
+  commit(member: TopicConsumer<T>, offsets: TopicPartitionOffset[]): void {
+    for (const { partition, offset } of offsets) {
+      this.assertAssigned(member, partition);
+      this.committed[partition] = offset;
+    }
+  }
+
+  private assertAssigned(member: TopicConsumer<T>, partition: number): void {
+    if (!this.assignmentOf(member).includes(partition)) {
+      throw new Error(
+        `Partition ${partition} is not assigned to ${member.memberId}`,
+      );
+    }
+  }
+
+  private rebalance(): void {
+    this.generation++;
+    const partitionCount = this.topic.endOffsets().length;
+    for (let partition = 0; partition < partitionCount; partition++) {
+      this.positions[partition] = this.committed[partition];
+    }
+  }
+}
+
+/**
+ * A member of a consumer group. It only reads, seeks and commits the
+ * partitions currently assigned to it.
+ */
+export class TopicConsumer<T extends MessagePayload = MessagePayload> {
+  constructor(
+    private group: ConsumerGroup<T>,
+    public memberId: string,
+  ) {}
+
+  assignment(): number[] {
+    return this.group.assignmentOf(this);
+  }
+
+  /**
+   * Returns up to `maxRecords` records from the assigned partitions, in
+   * partition order, and advances the positions past them.
+   */
+  poll(maxRecords = Infinity): TopicRecord<T>[] {
+    return this.group.poll(this, maxRecords);
+  }
+
+  /** Offset of the next record this member reads from the partition. */
+  position(partition: number): number {
+    return this.group.position(partition);
+  }
+
+  seek(partition: number, offset: number): void {
+    this.group.seek(this, { partition, offset });
+  }
+
+  /**
+   * Commits the given offsets, or the current position of every assigned
+   * partition when called without arguments.
+   */
+  commit(offsets?: TopicPartitionOffset[]): void {
+    this.group.commit(
+      this,
+      offsets ??
+        this.assignment().map((partition) => ({
+          partition,
+          offset: this.position(partition),
+        })),
+    );
+  }
+
+  leave(): void {
+    this.group.leave(this);
+  }
+}
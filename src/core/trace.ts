@@ -0,0 +1,211 @@
+import {
+  MessageQueue,
+  getHandlerContext,
+  type HandlerContext,
+  type Message,
+  type MessagePayload,
+} from "./queue";
+
+export type TraceEventType =
+  | "publish"
+  | "deliver"
+  | "handler-start"
+  | "handler-end"
+  | "handler-error"
+  | "ack";
+/**
+ * One step of a message through a traced queue.
+ */
+export type TraceEvent = {
+  /** Position in the trace, starting at 1. */
+  seq: number;
+  type: TraceEventType;
+  /** `Date.now()` when the event happened, so it follows Jest's fake timers. */
+  time: number;
+  queue: string;
+  messageId: number;
+  messageType: string | undefined;
+  /** The consumer handling the message, for handler and delivery events. */
+  consumerTag?: string;
+  /**
+   * `seq` of the `handler-start` event of the handler that published,
+   * received or acknowledged the message.
+   */
+  cause?: number;
+  /** Message of the error thrown, for `handler-error` events. */
+  error?: string;
+};
+
+// The tracer that last started recording a queue, for matcher failures.
+const tracers: WeakMap<MessageQueue, MessageTracer> = new WeakMap();
+
+/**
+ * Returns the tracer recording the queue, if any.
+ */
+export const getTracer = <T extends MessagePayload>(
+  queue: MessageQueue<T>,
+): MessageTracer | undefined => tracers.get(queue as MessageQueue);
+
+// Mermaid treats `;` and `#` as syntax inside message texts.
+const escapeMermaid = (text: string): string =>
+  text.replace(/[;#]/g, (char) => `#${char.charCodeAt(0)};`);
+
+/**
+ * Records how messages flow through the attached queues and their handlers,
+ * linking every message a handler publishes to the handler call.
+ */
+export class MessageTracer {
+  private events: TraceEvent[] = [];
+  private handlerStarts: WeakMap<HandlerContext, number> = new WeakMap();
+
+  /**
+   * Starts tracing the queue. Failing matchers on the queue print the trace.
+   *
+   * @returns A function that stops tracing.
+   */
+  record<T extends MessagePayload>(queue: MessageQueue<T>): () => void {
+    tracers.set(queue as MessageQueue, this);
+    const add = (
+      type: TraceEventType,
+      message: Message<T>,
+      details: Pick<TraceEvent, "consumerTag" | "error"> = {},
+    ) => this.add(type, queue.name, message, details);
+    const unsubscribes = [
+      queue.on("publish", (message) => add("publish", message)),
+      queue.on("deliver", ({ message, consumerTag }) =>
+        add("deliver", message, consumerTag ? { consumerTag } : {}),
+      ),
+      queue.on("handlerStart", ({ message, consumerTag }) => {
+        const { seq } = add("handler-start", message, { consumerTag });
+        this.handlerStarts.set(getHandlerContext()!, seq);
+      }),
+      queue.on("handlerEnd", ({ message, consumerTag }) =>
+        add("handler-end", message, { consumerTag }),
+      ),
+      queue.on("handlerError", ({ message, consumerTag, error }) =>
+        add("handler-error", message, { consumerTag, error: error.message }),
+      ),
+      queue.on("ack", (message) => add("ack", message)),
+    ];
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      if (tracers.get(queue as MessageQueue) === this) {
+        tracers.delete(queue as MessageQueue);
+      }
+    };
+  }
+
+  private add(
+    type: TraceEventType,
+    queue: string,
+    message: Message,
+    details: Pick<TraceEvent, "consumerTag" | "error">,
+  ): TraceEvent {
+    const event: TraceEvent = {
+      seq: this.events.length + 1,
+      type,
+      time: Date.now(),
+      queue,
+      messageId: message.id,
+      messageType: message.type,
+      ...details,
+    };
+    // Dispatches run in the publisher's context, but are not its doing.
+    const byCaller =
+      type === "publish" ||
+      type === "ack" ||
+      (type === "deliver" && !details.consumerTag);
+    const context = getHandlerContext();
+    const cause = byCaller && context && this.handlerStarts.get(context);
+    if (cause) {
+      event.cause = cause;
+    }
+    this.events.push(event);
+    return event;
+  }
+
+  getEvents(): TraceEvent[] {
+    return [...this.events];
+  }
+
+  /** The JSON timeline, so `JSON.stringify(tracer)` prints the events. */
+  toJSON(): TraceEvent[] {
+    return this.getEvents();
+  }
+
+  /**
+   * Renders the trace as a Mermaid sequence diagram. Messages published
+   * outside of any traced handler come from the `client` participant.
+   */
+  toMermaid(): string {
+    const participants = new Map<string, string>([["client", "p0"]]);
+    const participant = (label: string) => {
+      if (!participants.has(label)) {
+        participants.set(label, `p${participants.size}`);
+      }
+      return participants.get(label)!;
+    };
+    const bySeq = new Map(this.events.map((event) => [event.seq, event]));
+    const consumer = (queue: string, consumerTag: string) =>
+      participant(`${queue}: ${consumerTag}`);
+    const actor = (event: TraceEvent) => {
+      const start =
+        event.cause === undefined ? undefined : bySeq.get(event.cause);
+      return start ? consumer(start.queue, start.consumerTag!) : "p0";
+    };
+
+    const lines = this.events.flatMap((event) => {
+      const message = `${event.messageType ?? "(untyped)"} (id ${event.messageId})`;
+      const queue = participant(event.queue);
+      switch (event.type) {
+        case "publish":
+          return `${actor(event)}->>${queue}: publish ${message}`;
+        case "deliver":
+          return `${queue}->>${event.consumerTag ? consumer(event.queue, event.consumerTag) : actor(event)}: deliver ${message}`;
+        case "handler-start":
+          return `activate ${consumer(event.queue, event.consumerTag!)}`;
+        case "handler-end":
+          return `deactivate ${consumer(event.queue, event.consumerTag!)}`;
+        case "handler-error": {
+          const handler = consumer(event.queue, event.consumerTag!);
+          return [
+            `Note over ${handler}: error ${event.error}`,
+            `deactivate ${handler}`,
+          ];
+        }
+        case "ack":
+          return `${actor(event)}-->>${queue}: ack ${message}`;
+      }
+    });
+    return [
+      "sequenceDiagram",
+      ...Array.from(
+        participants,
+        ([label, id]) => `  participant ${id} as ${escapeMermaid(label)}`,
+      ),
+      ...lines.map((line) => `  ${escapeMermaid(line)}`),
+    ].join("\n");
+  }
+
+  /** Prints the trace one event per line, as matcher failures show it. */
+  format(): string {
+    if (this.events.length === 0) {
+      return "Message trace: no events recorded.";
+    }
+    const lines = this.events.map((event) => {
+      const consumerStr = event.consumerTag
+        ? event.type === "deliver"
+          ? ` to ${event.consumerTag}`
+          : ` in ${event.consumerTag}`
+        : "";
+      const causeStr = event.cause === undefined ? "" : ` from #${event.cause}`;
+      const errorStr = event.error === undefined ? "" : `: ${event.error}`;
+      return `#${event.seq} ${event.type} ${event.queue}#${event.messageId} (${event.messageType ?? "untyped"})${consumerStr}${causeStr}${errorStr}`;
+    });
+    return `Message trace:\n  ${lines.join("\n  ")}`;
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
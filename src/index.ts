@@ -1,2 +1,92 @@
-export { MessageQueue } from "./core/queue";
-export type { Message, MessageHandler } from "./core/queue";
+export {
+  MessageQueue,
+  envelope,
+  getHandlerContext,
+  getMetadata,
+  toPayload,
+} from "./core/queue";
+export { Exchange } from "./core/exchange";
+export { Topic } from "./core/topic";
+export { validateJsonSchema } from "./core/schema";
+export { createQueueSerializer } from "./serializer";
+export {
+  ContractRecorder,
+  inferSchema,
+  loadContract,
+  replayContract,
+} from "./core/contract";
+export { expectMessage, expectMessages, expectNoMessage } from "./core/helpers";
+export { request, respond } from "./core/rpc";
+export {
+  clearQueues,
+  getQueue,
+  registerQueue,
+  verifyQueues,
+} from "./core/registry";
+export { MessageTracer } from "./core/trace";
+export { AmqpChannel } from "./adapters/amqplib";
+export { KafkaClient, KafkaConsumer, KafkaProducer } from "./adapters/kafkajs";
+export { jsonCodec } from "./adapters/codec";
+export type {
+  AtLeastOnceOptions,
+  DeadLetter,
+  DeadLetterReason,
+  Delivery,
+  DeliveryMode,
+  DuplicateDelivery,
+  FaultOptions,
+  HandlerContext,
+  HandlerEvent,
+  InvalidMessage,
+  Message,
+  MessageHandler,
+  MessageProperties,
+  MessageQueueOptions,
+  MessageSelector,
+  NackOptions,
+  OverflowPolicy,
+  PublishOptions,
+  QueueEvents,
+  QueueTransaction,
+  SubscribeOptions,
+} from "./core/queue";
+export type { ExchangeType } from "./core/exchange";
+export type {
+  AmqpChannelOptions,
+  AmqpMessage,
+  AmqpMessageProperties,
+  AmqpPublishOptions,
+  AmqpQueueOptions,
+} from "./adapters/amqplib";
+export type {
+  KafkaClientOptions,
+  KafkaConsumerRunConfig,
+  KafkaEachMessagePayload,
+  KafkaMessage,
+  KafkaProducerRecord,
+  KafkaRecordMetadata,
+} from "./adapters/kafkajs";
+export type { MessageCodec } from "./adapters/codec";
+export type { MessageMatch } from "./core/helpers";
+export type { RequestHandler, RequestOptions } from "./core/rpc";
+export type { QueueChecks } from "./core/registry";
+export type { TraceEvent, TraceEventType } from "./core/trace";
+export type { QueueSerializer, QueueSerializerOptions } from "./serializer";
+export type { ContractRecorderOptions, MessageContract } from "./core/contract";
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  MessageSchema,
+  SchemaValidator,
+  ValidationResult,
+} from "./core/schema";
+export type {
+  ConsumerGroup,
+  ConsumerGroupOptions,
+  ProducerRecord,
+  TopicConsumer,
+  TopicEvents,
+  TopicOptions,
+  TopicPartitionOffset,
+  TopicRecord,
+} from "./core/topic";
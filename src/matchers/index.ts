@@ -1,17 +1,81 @@
-import { toBeInQueue } from "./toBeInQueue";
+import { toBeInQueue, type QueueSearch } from "./toBeInQueue";
 import { toHaveEmptyQueue } from "./toHaveEmptyQueue";
-import type { MessagePayload } from "../core/queue";
+import { toHaveDeadLettered } from "./toHaveDeadLettered";
+import { toBeInTopic } from "./toBeInTopic";
+import { toEventuallyContain } from "./toEventuallyContain";
+import { toEventuallyReceive } from "./toEventuallyReceive";
+import { toHaveMessageCount } from "./toHaveMessageCount";
+import { toContainMessagesInOrder } from "./toContainMessagesInOrder";
+import { toHaveExactlyMessages } from "./toHaveExactlyMessages";
+import { toHaveAcknowledged } from "./toHaveAcknowledged";
+import { toHaveBeenPublishedTimes } from "./toHaveBeenPublishedTimes";
+import { toMatchMessageSchema } from "./toMatchMessageSchema";
+import { toSatisfyContract } from "./toSatisfyContract";
+import { toHaveDropped } from "./toHaveDropped";
+import { toHaveIdempotentHandlers } from "./toHaveIdempotentHandlers";
+import { withTrace } from "./utils";
+import type {
+  DeadLetterReason,
+  MessagePayload,
+  MessageProperties,
+} from "../core/queue";
+import type { MessageSchema } from "../core/schema";
+import type { MessageContract } from "../core/contract";
 
 declare global {
   namespace jest {
     interface Matchers<R> {
-      toBeInQueue(expectedMessage: MessagePayload): R;
+      toBeInQueue(
+        expectedMessage: MessagePayload,
+        options?: { in?: QueueSearch; properties?: MessageProperties },
+      ): R;
       toHaveEmptyQueue(): R;
+      toHaveDeadLettered(
+        expectedMessage: MessagePayload,
+        reason?: DeadLetterReason,
+      ): R;
+      toBeInTopic(
+        expectedValue: MessagePayload,
+        options?: { key?: string; partition?: number },
+      ): R;
+      toEventuallyContain(
+        expectedMessage: MessagePayload,
+        options?: { timeout?: number },
+      ): Promise<R>;
+      toEventuallyReceive(
+        expectedMessage: MessagePayload,
+        options?: { timeout?: number },
+      ): Promise<R>;
+      toHaveMessageCount(expectedCount: number, messageType?: string): R;
+      toContainMessagesInOrder(expectedMessages: MessagePayload[]): R;
+      toHaveExactlyMessages(expectedMessages: MessagePayload[]): R;
+      toHaveAcknowledged(expectedMessage: MessagePayload): R;
+      toHaveBeenPublishedTimes(
+        expectedMessage: MessagePayload,
+        expectedTimes: number,
+      ): R;
+      toMatchMessageSchema(schemas?: Record<string, MessageSchema>): R;
+      toSatisfyContract(contract: MessageContract): R;
+      toHaveDropped(expectedMessage: MessagePayload): R;
+      toHaveIdempotentHandlers(): R;
     }
   }
 }
 
 expect.extend({
-  toBeInQueue,
-  toHaveEmptyQueue,
+  toBeInQueue: withTrace(toBeInQueue),
+  toHaveEmptyQueue: withTrace(toHaveEmptyQueue),
+  toHaveDeadLettered: withTrace(toHaveDeadLettered),
+  toBeInTopic,
+  toEventuallyContain: withTrace(toEventuallyContain),
+  toEventuallyReceive: withTrace(toEventuallyReceive),
+  toHaveMessageCount: withTrace(toHaveMessageCount),
+  toContainMessagesInOrder: withTrace(toContainMessagesInOrder),
+  toHaveExactlyMessages: withTrace(toHaveExactlyMessages),
+  toHaveAcknowledged: withTrace(toHaveAcknowledged),
+  toHaveBeenPublishedTimes: withTrace(toHaveBeenPublishedTimes),
+  toMatchMessageSchema: withTrace(toMatchMessageSchema),
+  toSatisfyContract: withTrace(toSatisfyContract),
+  toHaveDropped: withTrace(toHaveDropped),
+  toHaveIdempotentHandlers: withTrace(toHaveIdempotentHandlers),
 });
@@ -1,32 +1,89 @@
-import { MessageQueue, type MessagePayload } from "../core/queue";
-import { matcherHint, printReceived, printExpected } from "jest-matcher-utils";
+import {
+  MessageQueue,
+  getMetadata,
+  toPayload,
+  type Message,
+  type MessagePayload,
+  type MessageProperties,
+} from "../core/queue";
+import {
+  matcherHint,
+  printDiffOrStringify,
+  printExpected,
+  printReceived,
+} from "jest-matcher-utils";
+import { matchesProperties, printClosestMessageDiff } from "./utils";
+
+export type QueueSearch = "sent" | "received" | "any";
+
+const searchLabels: Record<QueueSearch, string> = {
+  sent: "pending",
+  received: "acknowledged",
+  any: "pending or acknowledged",
+};
 
 export const toBeInQueue = function (
   this: jest.MatcherContext,
   received: MessageQueue,
   expectedMessage: MessagePayload,
+  {
+    in: search = "sent",
+    properties,
+  }: { in?: QueueSearch; properties?: MessageProperties } = {},
 ) {
   const queue = received.getQueue();
-  const messageIsInQueue = queue.sentMessages.some((message) => {
-    return this.equals(
-      // Exclude id from comparison, it's provided by the queue
-      { ...message, id: undefined },
-      expectedMessage,
+  const lists: Record<QueueSearch, Message[]> = {
+    sent: queue.sentMessages,
+    received: queue.receivedMessages,
+    any: [...queue.sentMessages, ...queue.receivedMessages],
+  };
+  // Exclude envelope metadata from comparison, it's provided by the queue
+  const matchesPayload = (message: Message) =>
+    this.equals(toPayload(message), expectedMessage);
+  const findMatch = (messages: Message[]) =>
+    messages.find(
+      (message) =>
+        matchesPayload(message) &&
+        (!properties || matchesProperties(this, message, properties)),
     );
-  });
+  const match = findMatch(lists[search]);
 
   return {
-    pass: messageIsInQueue,
+    pass: match !== undefined,
     message: () => {
       const hint = matcherHint(".toBeInQueue", "received", "expectedMessage");
-      const expectedStr = printExpected(expectedMessage);
-      const receivedStr = printReceived(queue.sentMessages);
+      const label = searchLabels[search];
+      if (match) {
+        return `${hint}
+
+Expected message not to be ${label} in queue, but found:
+  ${printReceived(match)}`;
+      }
+
+      const samePayload = properties && lists[search].find(matchesPayload);
+      if (samePayload) {
+        return `${hint}
+
+Expected message to be ${label} in queue "${queue.name}" with the given properties.
+The payload matches message ${samePayload.id}, but its properties differ:
+
+${printDiffOrStringify(properties, getMetadata(samePayload).properties ?? {}, "Expected", "Received", this.expand !== false)}`;
+      }
+
+      const other: QueueSearch | undefined =
+        search === "sent"
+          ? "received"
+          : search === "received"
+            ? "sent"
+            : undefined;
+      const elsewhere = other && findMatch(lists[other]);
+      const noteStr = elsewhere
+        ? `\n\nNote: the message is ${searchLabels[other]} instead (id ${elsewhere.id}). Pass { in: ${printExpected(other)} } or { in: "any" } to search there.`
+        : "";
       return `${hint}
-      
-      Expected message to be in queue:
-        ${expectedStr}
-      Received:
-        ${receivedStr}`;
+
+Expected message to be ${label} in queue "${queue.name}".
+${printClosestMessageDiff(this, lists[search], expectedMessage, label)}${noteStr}`;
     },
   };
 };
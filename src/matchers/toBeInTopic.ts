@@ -0,0 +1,37 @@
+import { Topic } from "../core/topic";
+import type { MessagePayload } from "../core/queue";
+import { matcherHint, printReceived, printExpected } from "jest-matcher-utils";
+
+export const toBeInTopic = function (
+  this: jest.MatcherContext,
+  received: Topic,
+  expectedValue: MessagePayload,
+  { key, partition }: { key?: string; partition?: number } = {},
+) {
+  const records = received
+    .getTopic()
+    .partitions.flat()
+    .filter(
+      (record) =>
+        (key === undefined || record.key === key) &&
+        (partition === undefined || record.partition === partition),
+    );
+  const recordIsInTopic = records.some((record) =>
+    this.equals(record.value, expectedValue),
+  );
+
+  return {
+    pass: recordIsInTopic,
+    message: () => {
+      const hint = matcherHint(".toBeInTopic", "received", "expectedValue");
+      const expectedStr = printExpected(expectedValue);
+      const receivedStr = printReceived(records.map((record) => record.value));
+      return `${hint}
+
+Expected record ${this.isNot ? "not " : ""}to be in topic "${received.name}":
+  ${expectedStr}
+Received:
+  ${receivedStr}`;
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import { matcherHint, printExpected, printReceived } from "jest-matcher-utils";
+
+export const toContainMessagesInOrder = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessages: MessagePayload[],
+) {
+  const { sentMessages } = received.getQueue();
+  // Greedy subsequence match: each expected message must follow the previous.
+  let position = 0;
+  let matchedCount = 0;
+  for (const expectedMessage of expectedMessages) {
+    const offset = sentMessages
+      .slice(position)
+      .findIndex((message) => this.equals(toPayload(message), expectedMessage));
+    if (offset === -1) {
+      break;
+    }
+    position += offset + 1;
+    matchedCount++;
+  }
+
+  return {
+    pass: matchedCount === expectedMessages.length,
+    message: () => {
+      const hint = matcherHint(
+        ".toContainMessagesInOrder",
+        "received",
+        "expectedMessages",
+      );
+      const missingStr =
+        matchedCount < expectedMessages.length
+          ? `\nFirst message not found in order (index ${matchedCount}):\n  ${printExpected(expectedMessages[matchedCount])}`
+          : "";
+      return `${hint}
+
+Expected queue ${this.isNot ? "not " : ""}to contain messages in order:
+  ${printExpected(expectedMessages)}${missingStr}
+Received:
+  ${printReceived(sentMessages)}`;
+    },
+  };
+};
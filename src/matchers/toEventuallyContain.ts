@@ -0,0 +1,46 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import { waitUntil } from "../core/helpers";
+import { matcherHint, printExpected } from "jest-matcher-utils";
+import { printClosestMessageDiff } from "./utils";
+
+export const toEventuallyContain = async function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+  { timeout = 1000 }: { timeout?: number } = {},
+) {
+  const messageIsInQueue = () =>
+    received
+      .getQueue()
+      .sentMessages.some((message) =>
+        this.equals(toPayload(message), expectedMessage),
+      );
+
+  const pass = await waitUntil(
+    received,
+    ["publish"],
+    messageIsInQueue,
+    timeout,
+  );
+
+  return {
+    pass,
+    message: () => {
+      const hint = matcherHint(
+        ".toEventuallyContain",
+        "received",
+        "expectedMessage",
+      );
+      if (this.isNot) {
+        return `${hint}
+
+Expected message not to be in queue within ${timeout}ms:
+  ${printExpected(expectedMessage)}`;
+      }
+      return `${hint}
+
+Expected message to be in queue within ${timeout}ms.
+${printClosestMessageDiff(this, received.getQueue().sentMessages, expectedMessage, "pending")}`;
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import { waitUntil } from "../core/helpers";
+import { matcherHint, printExpected } from "jest-matcher-utils";
+import { printClosestMessageDiff } from "./utils";
+
+export const toEventuallyReceive = async function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+  { timeout = 1000 }: { timeout?: number } = {},
+) {
+  const messageWasReceived = () =>
+    received
+      .getQueue()
+      .receivedMessages.some((message) =>
+        this.equals(toPayload(message), expectedMessage),
+      );
+
+  const pass = await waitUntil(received, ["ack"], messageWasReceived, timeout);
+
+  return {
+    pass,
+    message: () => {
+      const hint = matcherHint(
+        ".toEventuallyReceive",
+        "received",
+        "expectedMessage",
+      );
+      if (this.isNot) {
+        return `${hint}
+
+Expected message not to be acknowledged within ${timeout}ms:
+  ${printExpected(expectedMessage)}`;
+      }
+      return `${hint}
+
+Expected message to be acknowledged within ${timeout}ms.
+${printClosestMessageDiff(this, received.getQueue().receivedMessages, expectedMessage, "acknowledged")}`;
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import { matcherHint, printExpected, printReceived } from "jest-matcher-utils";
+
+export const toHaveAcknowledged = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+) {
+  const { receivedMessages } = received.getQueue();
+  const messageWasAcknowledged = receivedMessages.some((message) =>
+    this.equals(toPayload(message), expectedMessage),
+  );
+
+  return {
+    pass: messageWasAcknowledged,
+    message: () => {
+      const hint = matcherHint(
+        ".toHaveAcknowledged",
+        "received",
+        "expectedMessage",
+      );
+      return `${hint}
+
+Expected message ${this.isNot ? "not " : ""}to be acknowledged:
+  ${printExpected(expectedMessage)}
+Acknowledged:
+  ${printReceived(receivedMessages)}`;
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import {
+  ensureExpectedIsNonNegativeInteger,
+  matcherHint,
+  printExpected,
+  printReceived,
+} from "jest-matcher-utils";
+
+export const toHaveBeenPublishedTimes = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+  expectedTimes: number,
+) {
+  const hint = matcherHint(
+    ".toHaveBeenPublishedTimes",
+    "received",
+    "expectedMessage, expectedTimes",
+  );
+  ensureExpectedIsNonNegativeInteger(expectedTimes, hint);
+
+  // Every message the queue accepted or holds back, wherever it is now.
+  // Messages dropped to make room are rejected too, and injected duplicates
+  // keep the id of the original, so each id counts once.
+  const queue = received.getQueue();
+  const published = [
+    ...queue.scheduledMessages,
+    ...queue.blockedMessages,
+    ...queue.sentMessages,
+    ...queue.receivedMessages,
+    ...queue.rejectedMessages,
+  ];
+  const times = new Set(
+    published
+      .filter((message) => this.equals(toPayload(message), expectedMessage))
+      .map(({ id }) => id),
+  ).size;
+
+  return {
+    pass: times === expectedTimes,
+    message: () => `${hint}
+
+Expected message ${this.isNot ? "not " : ""}to be published ${printExpected(expectedTimes)} times:
+  ${printExpected(expectedMessage)}
+Received ${printReceived(times)} times`,
+  };
+};
@@ -0,0 +1,52 @@
+import {
+  MessageQueue,
+  getMetadata,
+  toPayload,
+  type DeadLetterReason,
+  type MessagePayload,
+} from "../core/queue";
+import { matcherHint, printReceived, printExpected } from "jest-matcher-utils";
+
+export const toHaveDeadLettered = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+  reason?: DeadLetterReason,
+) {
+  const { name, deadLetterQueue } = received.getQueue();
+  const deadLetters = deadLetterQueue
+    ? [
+        ...deadLetterQueue.getQueue().sentMessages,
+        ...deadLetterQueue.getQueue().receivedMessages,
+      ].filter((message) => getMetadata(message).deadLetter?.queue === name)
+    : [];
+  const messageWasDeadLettered = deadLetters.some(
+    (message) =>
+      (reason === undefined ||
+        getMetadata(message).deadLetter?.reason === reason) &&
+      this.equals(toPayload(message), expectedMessage),
+  );
+
+  return {
+    pass: messageWasDeadLettered,
+    message: () => {
+      const hint = matcherHint(
+        ".toHaveDeadLettered",
+        "received",
+        "expectedMessage",
+      );
+      if (!deadLetterQueue) {
+        return `${hint}\n\nQueue "${name}" has no dead-letter queue`;
+      }
+      const expectedStr = printExpected(expectedMessage);
+      const reasonStr = reason ? ` with reason ${printExpected(reason)}` : "";
+      const receivedStr = printReceived(deadLetters);
+      return `${hint}
+
+Expected message ${this.isNot ? "not " : ""}to be dead-lettered${reasonStr}:
+  ${expectedStr}
+Dead-lettered from "${name}":
+  ${receivedStr}`;
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import { matcherHint, printReceived } from "jest-matcher-utils";
+import { printClosestMessageDiff } from "./utils";
+
+export const toHaveDropped = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessage: MessagePayload,
+) {
+  const { droppedMessages } = received.getQueue();
+  const match = droppedMessages.find((message) =>
+    this.equals(toPayload(message), expectedMessage),
+  );
+
+  return {
+    pass: match !== undefined,
+    message: () => {
+      const hint = matcherHint(".toHaveDropped", "received", "expectedMessage");
+      if (match) {
+        return `${hint}
+
+Expected message not to be dropped by queue "${received.name}", but found:
+  ${printReceived(match)}`;
+      }
+      return `${hint}
+
+Expected message to be dropped by queue "${received.name}".
+${printClosestMessageDiff(this, droppedMessages, expectedMessage, "dropped")}`;
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import { MessageQueue, toPayload, type MessagePayload } from "../core/queue";
+import {
+  matcherHint,
+  printDiffOrStringify,
+  printExpected,
+} from "jest-matcher-utils";
+
+export const toHaveExactlyMessages = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedMessages: MessagePayload[],
+) {
+  const payloads = received.getQueue().sentMessages.map(toPayload);
+
+  return {
+    pass: this.equals(payloads, expectedMessages),
+    message: () => {
+      const hint = matcherHint(
+        ".toHaveExactlyMessages",
+        "received",
+        "expectedMessages",
+      );
+      if (this.isNot) {
+        return `${hint}
+
+Expected queue not to have exactly these pending messages:
+  ${printExpected(expectedMessages)}`;
+      }
+      return `${hint}
+
+${printDiffOrStringify(expectedMessages, payloads, "Expected", "Received", this.expand !== false)}`;
+    },
+  };
+};
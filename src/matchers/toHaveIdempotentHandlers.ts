@@ -0,0 +1,56 @@
+import { MessageQueue } from "../core/queue";
+import {
+  matcherHint,
+  printDiffOrStringify,
+  printReceived,
+} from "jest-matcher-utils";
+
+export const toHaveIdempotentHandlers = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+) {
+  const { duplicateDeliveries } = received.getQueue();
+  const snapshotted = duplicateDeliveries.every(
+    ({ afterDuplicates }) => afterDuplicates !== undefined,
+  );
+  const changes = duplicateDeliveries.flatMap(
+    ({ message, afterFirst, afterDuplicates = [] }) =>
+      afterDuplicates
+        .map((after, index) => ({ message, afterFirst, after, index }))
+        .filter(({ after }) => !this.equals(after, afterFirst)),
+  );
+
+  return {
+    pass: duplicateDeliveries.length > 0 && snapshotted && changes.length === 0,
+    message: () => {
+      const hint = matcherHint(".toHaveIdempotentHandlers", "received", "");
+      if (duplicateDeliveries.length === 0) {
+        return `${hint}
+
+Queue "${received.name}" delivered no message more than once. Create it with the atLeastOnce option and await flush() before asserting.`;
+      }
+      if (!snapshotted) {
+        return `${hint}
+
+Queue "${received.name}" took no snapshot of the state its handlers change, so duplicate deliveries cannot be compared. Pass atLeastOnce.snapshot when creating it.`;
+      }
+      if (changes.length === 0) {
+        return `${hint}
+
+Expected handlers not to be idempotent, but the duplicates of ${duplicateDeliveries.length === 1 ? "1 message" : `${duplicateDeliveries.length} messages`} left the state unchanged.`;
+      }
+      const [{ message, afterFirst, after, index }] = changes;
+      const countStr =
+        changes.length === 1
+          ? ""
+          : ` (1 of ${changes.length} duplicate deliveries that changed it)`;
+      return `${hint}
+
+Expected duplicate deliveries to leave the state unchanged.
+Duplicate delivery ${index + 1} of message ${message.id}${countStr} changed it:
+  ${printReceived(message)}
+
+${printDiffOrStringify(afterFirst, after, "After first delivery", "After duplicate", this.expand !== false)}`;
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { MessageQueue, matchesSelector } from "../core/queue";
+import {
+  ensureExpectedIsNonNegativeInteger,
+  matcherHint,
+  printExpected,
+  printReceived,
+} from "jest-matcher-utils";
+
+export const toHaveMessageCount = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  expectedCount: number,
+  messageType?: string,
+) {
+  const hint = matcherHint(
+    ".toHaveMessageCount",
+    "received",
+    messageType === undefined ? "expectedCount" : "expectedCount, messageType",
+  );
+  ensureExpectedIsNonNegativeInteger(expectedCount, hint);
+
+  const messages = received
+    .getQueue()
+    .sentMessages.filter(
+      (message) =>
+        messageType === undefined || matchesSelector(messageType, message),
+    );
+
+  return {
+    pass: messages.length === expectedCount,
+    message: () => {
+      const typeStr =
+        messageType === undefined
+          ? ""
+          : ` of type ${printExpected(messageType)}`;
+      return `${hint}
+
+Expected queue ${this.isNot ? "not " : ""}to have ${printExpected(expectedCount)} pending messages${typeStr}
+Received ${printReceived(messages.length)}:
+  ${printReceived(messages)}`;
+    },
+  };
+};
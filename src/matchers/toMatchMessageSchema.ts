@@ -0,0 +1,50 @@
+import { MessageQueue, toPayload } from "../core/queue";
+import { validatePayload, type MessageSchema } from "../core/schema";
+import { matcherHint, printReceived } from "jest-matcher-utils";
+
+export const toMatchMessageSchema = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  schemas?: Record<string, MessageSchema>,
+) {
+  const queue = received.getQueue();
+  const messages = [...queue.sentMessages, ...queue.receivedMessages];
+  const violations = messages
+    .map((message) => {
+      const schema =
+        message.type === undefined ? undefined : schemas?.[message.type];
+      const { valid, errors = [] } = !schemas
+        ? received.validateMessage(message)
+        : schema
+          ? validatePayload(schema, toPayload(message))
+          : { valid: true };
+      return { message, valid, errors };
+    })
+    .filter(({ valid }) => !valid);
+
+  return {
+    pass: violations.length === 0,
+    message: () => {
+      const hint = matcherHint(
+        ".toMatchMessageSchema",
+        "received",
+        schemas ? "schemas" : "",
+      );
+      if (violations.length === 0) {
+        return `${hint}
+
+Expected some messages to violate their schema, but all ${messages.length} messages in queue "${queue.name}" are valid`;
+      }
+      const violationsStr = violations
+        .map(
+          ({ message, errors }) =>
+            `Message ${message.id} of type ${printReceived(message.type)}:\n  ${errors.join("\n  ")}`,
+        )
+        .join("\n");
+      return `${hint}
+
+Expected every message in queue "${queue.name}" to match its schema.
+${violationsStr}`;
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import { MessageQueue, toPayload } from "../core/queue";
+import { validateJsonSchema } from "../core/schema";
+import type { MessageContract } from "../core/contract";
+import { matcherHint, printReceived } from "jest-matcher-utils";
+
+export const toSatisfyContract = function (
+  this: jest.MatcherContext,
+  received: MessageQueue,
+  contract: MessageContract,
+) {
+  const queue = received.getQueue();
+  const messages = [...queue.sentMessages, ...queue.receivedMessages];
+  const violations = messages
+    .map((message) => {
+      const entry =
+        message.type === undefined
+          ? undefined
+          : contract.messages[message.type];
+      const errors = entry
+        ? validateJsonSchema(entry.schema, toPayload(message))
+        : ["type is not covered by the contract"];
+      return { message, errors };
+    })
+    .filter(({ errors }) => errors.length > 0);
+
+  return {
+    pass: violations.length === 0,
+    message: () => {
+      const hint = matcherHint(".toSatisfyContract", "received", "contract");
+      if (violations.length === 0) {
+        return `${hint}
+
+Expected some messages to fall outside the contract, but all ${messages.length} messages in queue "${queue.name}" are covered`;
+      }
+      const violationsStr = violations
+        .map(
+          ({ message, errors }) =>
+            `Message ${message.id} of type ${printReceived(message.type)}:\n  ${errors.join("\n  ")}`,
+        )
+        .join("\n");
+      return `${hint}
+
+Expected every message in queue "${queue.name}" to be covered by the contract.
+Covered types: ${Object.keys(contract.messages).join(", ") || "none"}
+${violationsStr}`;
+    },
+  };
+};
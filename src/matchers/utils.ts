@@ -0,0 +1,115 @@
+import {
+  MessageQueue,
+  getMetadata,
+  toPayload,
+  type Message,
+  type MessagePayload,
+  type MessageProperties,
+} from "../core/queue";
+import { printDiffOrStringify, printExpected } from "jest-matcher-utils";
+import { getTracer } from "../core/trace";
+
+/**
+ * Counts the payload fields, from either side, on which both agree.
+ */
+const similarity = (
+  context: jest.MatcherContext,
+  payload: MessagePayload,
+  expected: MessagePayload,
+): number => {
+  const keys = new Set([...Object.keys(payload), ...Object.keys(expected)]);
+  let score = 0;
+  for (const key of keys) {
+    if (context.equals(payload[key], expected[key])) {
+      score++;
+    }
+  }
+  return score;
+};
+
+/**
+ * Returns the message whose payload shares the most fields with the expected
+ * message, preferring the earliest on ties.
+ */
+export const findClosestMessage = <T extends MessagePayload>(
+  context: jest.MatcherContext,
+  messages: Message<T>[],
+  expected: MessagePayload,
+): Message<T> | undefined => {
+  let closest: Message<T> | undefined;
+  let bestScore = -1;
+  for (const message of messages) {
+    const score = similarity(context, toPayload(message), expected);
+    if (score > bestScore) {
+      closest = message;
+      bestScore = score;
+    }
+  }
+  return closest;
+};
+
+/**
+ * Prints a diff between the expected message and the closest candidate, so a
+ * failure shows why nothing matched instead of dumping every message.
+ */
+export const printClosestMessageDiff = <T extends MessagePayload>(
+  context: jest.MatcherContext,
+  messages: Message<T>[],
+  expected: MessagePayload,
+  label: string,
+): string => {
+  const closest = findClosestMessage(context, messages, expected);
+  if (!closest) {
+    return `Expected: ${printExpected(expected)}\nNo ${label} messages.`;
+  }
+  const countStr =
+    messages.length === 1 ? "" : ` of ${messages.length} ${label} messages`;
+  return `Closest ${label} message (id ${closest.id}${countStr}):
+
+${printDiffOrStringify(expected, toPayload(closest), "Expected", "Received", context.expand !== false)}`;
+};
+
+/**
+ * Tests the envelope properties of a message against the expected ones. Only
+ * the given properties are compared, and only the given headers.
+ */
+export const matchesProperties = (
+  context: jest.MatcherContext,
+  message: Message,
+  expected: MessageProperties,
+): boolean => {
+  const { headers = {}, ...properties } = getMetadata(message).properties ?? {};
+  const { headers: expectedHeaders = {}, ...expectedProperties } = expected;
+  return (
+    Object.entries(expectedProperties).every(([key, value]) =>
+      context.equals(properties[key as keyof typeof properties], value),
+    ) &&
+    Object.entries(expectedHeaders).every(([name, value]) =>
+      context.equals(headers[name], value),
+    )
+  );
+};
+
+/**
+ * Appends the message trace to failures of a queue matcher when the received
+ * queue is traced by a `MessageTracer`.
+ */
+export const withTrace = <M extends jest.CustomMatcher>(matcher: M): M =>
+  function (this: jest.MatcherContext, received: unknown, ...args: unknown[]) {
+    const result = matcher.call(this, received, ...args);
+    const tracer =
+      received instanceof MessageQueue ? getTracer(received) : undefined;
+    if (!tracer) {
+      return result;
+    }
+    const attachTrace = ({
+      pass,
+      message,
+    }: jest.CustomMatcherResult): jest.CustomMatcherResult => ({
+      pass,
+      message: () => `${message()}\n\n${tracer.format()}`,
+    });
+    return result instanceof Promise
+      ? result.then(attachTrace)
+      : attachTrace(result);
+  } as M;
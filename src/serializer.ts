@@ -0,0 +1,76 @@
+import { MessageQueue, type Message, type MessageSelector } from "./core/queue";
+
+export type QueueSerializerOptions = {
+  /** Leaves out message ids, which shift whenever a test publishes more. */
+  hideIds?: boolean;
+};
+
+type Printer = (
+  value: unknown,
+  config: unknown,
+  indentation: string,
+  depth: number,
+  refs: unknown[],
+) => string;
+
+/**
+ * A Jest snapshot serializer, usable with `expect.addSnapshotSerializer` or
+ * the `snapshotSerializers` config option.
+ */
+export type QueueSerializer = {
+  test(value: unknown): boolean;
+  serialize(
+    value: MessageQueue,
+    config: unknown,
+    indentation: string,
+    depth: number,
+    refs: unknown[],
+    printer: Printer,
+  ): string;
+};
+
+const describeSelector = (selector: MessageSelector | undefined): string => {
+  if (selector === undefined) {
+    return "(all)";
+  }
+  if (typeof selector === "function") {
+    return "(predicate)";
+  }
+  return String(selector);
+};
+
+const withoutId = ({ id: _id, ...message }: Message) => message;
+
+/**
+ * Creates a snapshot serializer printing a queue as its name, pending and
+ * acknowledged messages in order, and the subscriber count per selector.
+ */
+export const createQueueSerializer = ({
+  hideIds = false,
+}: QueueSerializerOptions = {}): QueueSerializer => ({
+  test: (value) => value instanceof MessageQueue,
+  serialize: (queue, config, indentation, depth, refs, printer) => {
+    const { name, sentMessages, receivedMessages, handlers } = queue.getQueue();
+    const format = (messages: Message[]) =>
+      hideIds ? messages.map(withoutId) : messages;
+
+    const subscribers: Record<string, number> = {};
+    for (const [selector, handlersForSelector] of handlers) {
+      if (handlersForSelector.length > 0) {
+        const key = describeSelector(selector);
+        subscribers[key] = (subscribers[key] ?? 0) + handlersForSelector.length;
+      }
+    }
+
+    const state = {
+      pending: format(sentMessages),
+      acknowledged: format(receivedMessages),
+      subscribers,
+    };
+    return `MessageQueue "${name}" ${printer(state, config, indentation, depth, refs)}`;
+  },
+});
+
+const queueSerializer = createQueueSerializer();
+
+export const { test, serialize } = queueSerializer;
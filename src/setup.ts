@@ -0,0 +1,4 @@
+import "./matchers";
+import { verifyQueues } from "./core/registry";
+
+afterEach(() => verifyQueues());